@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Native module used by the optional sqlite menu cache; load it from node_modules at runtime
+    serverComponentsExternalPackages: ['better-sqlite3'],
+  },
 }
 
-module.exports = nextConfig
\ No newline at end of file
+module.exports = nextConfig
@@ -1,15 +1,24 @@
 'use server';
 
-import { Language } from '@/services/menuService';
+import { cookies } from 'next/headers';
 import { revalidatePath } from 'next/cache';
+import { isLanguage } from '@/types/menu';
+import { LANGUAGE_COOKIE, LANGUAGE_COOKIE_MAX_AGE } from '@/lib/language';
 
+// Save the language preference so server renders (page, <html lang>, metadata) use it
 export async function changeLanguage(formData: FormData) {
-  const language = formData.get('language') as Language;
-  
-  if (!language) {
-    throw new Error('Language is required');
+  const language = formData.get('language');
+
+  if (!isLanguage(language)) {
+    throw new Error(`Unsupported language: ${String(language)}`);
   }
 
+  cookies().set(LANGUAGE_COOKIE, language, {
+    path: '/',
+    maxAge: LANGUAGE_COOKIE_MAX_AGE,
+    sameSite: 'lax',
+  });
+
   // 페이지 재검증
   revalidatePath('/');
 }
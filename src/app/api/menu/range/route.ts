@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { addDays, format, isWeekend, differenceInCalendarDays } from 'date-fns';
+import { CACHE_DURATION, getServerDayMenu, ServerDayMenuResult } from '@/lib/server/menu';
+import { MenuApiError, menuErrorResponse, toErrorBody } from '@/lib/server/errors';
+import { parseLanguage, parseMenuDate } from '@/lib/server/requestValidation';
+import { getHoliday } from '@/lib/holidays';
+import { ApiDayErrorBody } from '@/types/api';
+
+const MAX_RANGE_DAYS = 31; // Calendar days per request
+
+// All working days between from and to (inclusive), as yyyyMMdd.
+// Holidays are skipped: the client labels them itself and never asks for their menu.
+function getWeekdaysBetween(from: Date, to: Date): string[] {
+  const dates: string[] = [];
+  for (let current = from; current <= to; current = addDays(current, 1)) {
+    const date = format(current, 'yyyyMMdd');
+    if (!isWeekend(current) && !getHoliday(date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+export const GET = async (request: Request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = parseMenuDate(searchParams.get('from'), 'from');
+    const to = parseMenuDate(searchParams.get('to'), 'to');
+    const lang = parseLanguage(searchParams.get('lang'));
+
+    const span = differenceInCalendarDays(to, from);
+    if (span < 0 || span >= MAX_RANGE_DAYS) {
+      throw new MenuApiError(
+        400,
+        'INVALID_RANGE',
+        `Range must be between 1 and ${MAX_RANGE_DAYS} days`,
+        span < 0 ? 'to' : 'from'
+      );
+    }
+
+    // Each day goes through the same server cache as /api/menu/[date].
+    // A day that fails is reported on its own, so it does not take the rest of the range down.
+    const dates = getWeekdaysBetween(from, to);
+    const settled = await Promise.allSettled(dates.map(date => getServerDayMenu(date, lang)));
+
+    const results: ServerDayMenuResult[] = [];
+    const errors: Record<string, ApiDayErrorBody> = {};
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        results.push(outcome.value);
+        return;
+      }
+      const { status, body } = toErrorBody(outcome.reason);
+      if (status >= 500) {
+        console.error(`Error fetching menu for ${dates[index]}:`, outcome.reason);
+      }
+      errors[dates[index]] = { ...body, status };
+    });
+
+    // Nothing to show: answer like the single-day route would. Days the upstream does
+    // not know (404) are reported too; the client shows them as empty, not as failed.
+    const failures = settled.filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    const isNotFound = ({ reason }: PromiseRejectedResult) => reason instanceof MenuApiError && reason.code === 'NOT_FOUND';
+    if (failures.length > 0 && failures.length === settled.length && !failures.some(isNotFound)) {
+      throw failures[0].reason;
+    }
+
+    // The response is only as fresh as its stalest day; days with an error must not be cached
+    const maxAge = results.reduce((min, result) => Math.min(min, result.maxAge), CACHE_DURATION / 1000);
+    const hits = results.filter(result => result.cacheHit).length;
+    const cacheStatus = hits === results.length ? 'HIT' : hits === 0 ? 'MISS' : 'PARTIAL';
+
+    return NextResponse.json(
+      { days: results.map(result => result.data), errors },
+      {
+        headers: {
+          'Cache-Control': failures.length > 0
+            ? 'no-store'
+            : `public, max-age=${maxAge}, s-maxage=${maxAge}, stale-while-revalidate=60`,
+          'X-Cache': cacheStatus,
+        },
+      }
+    );
+  } catch (error) {
+    return menuErrorResponse(error);
+  }
+}
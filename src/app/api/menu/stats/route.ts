@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getServerMenuStats } from '@/lib/server/menu';
+
+// Counters are per server instance, so never serve them from a cache
+export const dynamic = 'force-dynamic';
+
+export const GET = async () => {
+  return NextResponse.json(getServerMenuStats(), {
+    headers: {
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -3,6 +3,9 @@ import { Inter, Noto_Sans_KR } from 'next/font/google'
 import { SpeedInsights } from "@vercel/speed-insights/next"
 import { Analytics } from "@vercel/analytics/react"
 import { ThemeProvider } from "@/components/theme-provider"
+import { getMessages } from "@/i18n"
+import { SUPPORTED_LANGUAGES } from "@/types/menu"
+import { getPreferredLanguage } from "@/lib/server/language"
 import './globals.css'
 
 const inter = Inter({
@@ -16,10 +19,12 @@ const notoSansKR = Noto_Sans_KR({
   weight: ["400", "500", "600", "700"],
 })
 
-export const metadata: Metadata = {
+const description = `No need to overThink it—Gasan's everyday meals are now available in ${SUPPORTED_LANGUAGES.length} languages! Always easy to check, always ready for you. `
+
+const metadata: Metadata = {
   metadataBase: new URL('https://menu.sungwoonsong.com'),
   title: 'Gasan Menu by Sungwoon ',
-  description: 'No need to overThink it—Gasan\'s everyday meals are now available in four languages! Always easy to check, always ready for you. ',
+  description,
   icons: {
     icon: '/icon.png',
     shortcut: '/favicon.ico',
@@ -27,7 +32,7 @@ export const metadata: Metadata = {
   },
   openGraph: {
     title: 'Gasan Menu by Sungwoon ',
-    description: 'No need to overThink it—Gasan\'s everyday meals are now available in four languages! Always easy to check, always ready for you. ',
+    description,
     url: 'https://menu.sungwoonsong.com',
     siteName: 'Gasan Menu by Sungwoon ',
     images: [
@@ -38,24 +43,35 @@ export const metadata: Metadata = {
         alt: 'Weekly Menu Preview',
       },
     ],
-    locale: 'ko_KR',
+    locale: getMessages('ko').language.ogLocale,
     type: 'website',
   },  
   twitter: {
     card: 'summary_large_image',
     title: 'Gasan Menu by Sungwoon ',
-    description: 'No need to overThink it—Gasan\'s everyday meals are now available in four languages! Always easy to check, always ready for you. ',
+    description,
     images: ['/og-image.png'],
   },
 }
 
+// Open Graph locale follows the visitor's language preference
+export function generateMetadata(): Metadata {
+  return {
+    ...metadata,
+    openGraph: {
+      ...metadata.openGraph,
+      locale: getMessages(getPreferredLanguage()).language.ogLocale,
+    },
+  }
+}
+
 export default function RootLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
   return (
-    <html lang="ko" suppressHydrationWarning>
+    <html lang={getPreferredLanguage()} suppressHydrationWarning>
       <body className={`${inter.variable} ${notoSansKR.variable} font-sans antialiased`}>
         <ThemeProvider
           attribute="class"
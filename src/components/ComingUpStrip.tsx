@@ -0,0 +1,47 @@
+"use client"
+
+import { Language } from "@/services/menuService"
+import { formatDate, getMessages } from "@/i18n"
+import { UpcomingFavorites } from "@/lib/favorites"
+import { cn } from "@/lib/utils"
+import { Star } from "lucide-react"
+
+interface ComingUpStripProps {
+  upcoming: UpcomingFavorites[]
+  language: Language
+  today: string
+  onSelect: (date: string) => void
+}
+
+export function ComingUpStrip({ upcoming, language, today, onSelect }: ComingUpStripProps) {
+  const messages = getMessages(language)
+
+  return (
+    <div className="mb-4 rounded-xl border bg-card px-3 py-2.5">
+      <div className="flex items-center gap-1.5 mb-2 text-xs font-semibold text-muted-foreground">
+        <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />
+        {messages.favorites.comingUp}
+      </div>
+      {upcoming.length > 0 ? (
+        <div className="flex gap-2 overflow-x-auto scrollbar-hide -mx-1 px-1 pb-0.5">
+          {upcoming.map(({ date, items }) => (
+            <button
+              key={date}
+              onClick={() => onSelect(date)}
+              className="shrink-0 max-w-[200px] rounded-lg bg-muted/60 px-2.5 py-1.5 text-left hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              <span className={cn("block text-[11px] text-muted-foreground", date === today && "text-primary font-medium")}>
+                {formatDate(date, language, "tab")}
+              </span>
+              <span className="block text-sm font-medium truncate">
+                {items.map(item => item.name).join(", ")}
+              </span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground italic">{messages.favorites.nothingSoon}</p>
+      )}
+    </div>
+  )
+}
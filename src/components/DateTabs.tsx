@@ -1,79 +1,223 @@
 "use client"
 
-import { DayMenu } from "@/types/menu"
-import { Language, getAdditionalDays } from "@/services/menuService"
-import { format, parse } from "date-fns"
-import { ko, enUS, zhCN, sv } from "date-fns/locale"
+import { DayMenu, MenuItem } from "@/types/menu"
+import {
+  Language,
+  getAdditionalDays,
+  getCenteredMenu,
+  getMenusForDates,
+  getWorkingDaysBetween,
+  isDayMenuFailed,
+  isMenuEmpty,
+} from "@/services/menuService"
+import { addDays, differenceInCalendarDays, parse } from "date-fns"
+import { formatDate, getMessages } from "@/i18n"
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "./ui/tabs"
 import { Button } from "./ui/button"
-import { ChevronLeft, ChevronRight } from "lucide-react"
-import { useState, useCallback, useRef, useEffect, useImperativeHandle, forwardRef } from "react"
-import { motion, AnimatePresence } from "framer-motion"
-import { MenuCard, MenuCardSkeleton, EmptyMenuCard } from "./MenuCard"
-import { cn } from "@/lib/utils"
+import { ChevronLeft, ChevronRight, ShieldCheck } from "lucide-react"
+import { useState, useCallback, useRef, useEffect, useLayoutEffect, useImperativeHandle, forwardRef } from "react"
+import { motion, AnimatePresence, useDragControls, type PanInfo } from "framer-motion"
+import { MenuCard, MenuCardSkeleton, EmptyMenuCard, ErrorMenuCard } from "./MenuCard"
+import { ComingUpStrip } from "./ComingUpStrip"
+import { cn, runWhenIdle } from "@/lib/utils"
+import { useDayRetry, useMenuUpdates } from "@/hooks/useDayMenus"
+import { ORIGINAL_LANGUAGE } from "@/lib/language"
+import { getHoliday } from "@/lib/holidays"
+import { DietaryProfile, EMPTY_DIETARY_PROFILE, countSafeItems, isDietaryProfileActive } from "@/lib/dietaryProfile"
+import {
+  COMING_UP_DAYS,
+  COMING_UP_LIMIT,
+  FavoriteDish,
+  UpcomingFavorites,
+  findFavoriteItems,
+  findUpcomingFavorites,
+} from "@/lib/favorites"
 import Image from "next/image"
 
 interface DateTabsProps {
   initialDays: DayMenu[]
   language: Language
   today: string
+  requestedDate?: string | null // Date asked for from outside (e.g. the URL); loaded on demand if not in the strip
+  showOriginals?: boolean // Bilingual mode: show the Korean original of each item
+  highlightedItem?: { date: string; id: number } | null // Item to point out, e.g. a search result
+  dietaryProfile?: DietaryProfile // Each tab counts the items that are safe with it
+  favorites?: FavoriteDish[] // Listed under "Coming up" and marked on the tabs
+  onFavoriteToggle?: (item: MenuItem, menu: DayMenu) => void
+  onSelectedDateChange?: (date: string) => void
 }
 
 export interface DateTabsRef {
   goToToday: () => void
+  goToDate: (date: string) => void
 }
 
-const locales = {
-  ko,
-  en: enUS,
-  zh: zhCN,
-  sv,
+const UPDATED_INDICATOR_DURATION = 8000 // How long a refreshed card shows its "updated" badge
+const NO_FAVORITES: FavoriteDish[] = [] // Stable default, the favorites scan depends on it
+
+const LOAD_BATCH = 5 // Working days added when the strip grows at either end
+const EDGE_DISTANCE = 160 // px from either end of the strip at which more days load
+const MAX_LOADED_DAYS = 30 // Beyond this, days at the far end are dropped
+const SCROLL_SETTLE_TIME = 150 // ms without scroll events after which a scroll we started counts as done
+
+// Layout effects warn during server rendering, where there is no scroll position to keep anyway
+const useBrowserLayoutEffect = typeof window !== "undefined" ? useLayoutEffect : useEffect
+
+// Drop days from one end of a strip that is over the limit, stopping at the selected day
+function trimDays(days: DayMenu[], from: "start" | "end", selectedDate: string): DayMenu[] {
+  const excess = days.length - MAX_LOADED_DAYS
+  if (excess <= 0) return days
+
+  const selectedIndex = days.findIndex(d => d.date === selectedDate)
+  if (from === "start") {
+    return days.slice(selectedIndex === -1 ? excess : Math.min(excess, selectedIndex))
+  }
+  const count = selectedIndex === -1 ? excess : Math.min(excess, days.length - 1 - selectedIndex)
+  return days.slice(0, days.length - count)
+}
+
+// Day to open when none was asked for: today, unless the cafeteria is closed today;
+// then the closest working day in the strip, the later one on a tie
+function getDefaultDate(days: DayMenu[], today: string): string {
+  if (!getHoliday(today)) return today
+
+  const todayDate = parse(today, "yyyyMMdd", new Date())
+  const distance = (date: string) => differenceInCalendarDays(parse(date, "yyyyMMdd", new Date()), todayDate)
+  const closest = days
+    .filter(d => !d.holiday)
+    .reduce<DayMenu | null>((best, d) => {
+      if (!best) return d
+      const delta = Math.abs(distance(d.date)) - Math.abs(distance(best.date))
+      return delta < 0 || (delta === 0 && d.date > best.date) ? d : best
+    }, null)
+  return closest?.date ?? today
 }
 
+// A swipe needs to travel this far, or be this quick once it is past the minimum
+const SWIPE_DISTANCE = 80 // px
+const SWIPE_MIN_DISTANCE = 24 // px
+const SWIPE_VELOCITY = 500 // px/s
+
 export const DateTabs = forwardRef<DateTabsRef, DateTabsProps>(function DateTabs(
-  { initialDays, language, today },
+  {
+    initialDays,
+    language,
+    today,
+    requestedDate = null,
+    showOriginals = false,
+    highlightedItem = null,
+    dietaryProfile = EMPTY_DIETARY_PROFILE,
+    favorites = NO_FAVORITES,
+    onFavoriteToggle,
+    onSelectedDateChange,
+  },
   ref
 ) {
   const [days, setDays] = useState<DayMenu[]>(initialDays)
-  const [selectedDate, setSelectedDate] = useState<string>(today)
+  const [selectedDate, setSelectedDate] = useState<string>(() => requestedDate ?? getDefaultDate(initialDays, today))
+  const [isJumping, setIsJumping] = useState(false)
   const [isLoadingLeft, setIsLoadingLeft] = useState(false)
   const [isLoadingRight, setIsLoadingRight] = useState(false)
+  const [updatedDates, setUpdatedDates] = useState<Set<string>>(new Set())
+  const [originals, setOriginals] = useState<Record<string, DayMenu>>({}) // Korean menus by date
+  const [upcomingFavorites, setUpcomingFavorites] = useState<UpcomingFavorites[]>([])
   const tabsListRef = useRef<HTMLDivElement>(null)
 
-  // Find the index of today in the current days array
-  const todayIndex = days.findIndex(d => d.date === today)
+  // Latest values for effects that should only react to the requested date
+  const daysRef = useRef(days)
+  daysRef.current = days
+  const originalsRef = useRef(originals)
+  originalsRef.current = originals
+
+  const withOriginals = showOriginals && language !== ORIGINAL_LANGUAGE
+  const requestedDateRef = useRef(requestedDate)
+  requestedDateRef.current = requestedDate
+  const selectedDateRef = useRef(selectedDate)
+  selectedDateRef.current = selectedDate
+
+  // Loads in flight, checked synchronously so a burst of scroll events starts only one
+  const loadingEdges = useRef({ left: false, right: false })
   
   // Track if initial scroll has happened
   const hasInitialScrolled = useRef(false)
 
-  // Expose goToToday method via ref
-  useImperativeHandle(ref, () => ({
-    goToToday: () => {
-      setSelectedDate(today)
-      // Scroll to today tab
-      if (tabsListRef.current && todayIndex >= 0) {
-        const container = tabsListRef.current
-        const tabs = container.querySelectorAll('[role="tab"]')
-        const todayTab = tabs[todayIndex] as HTMLElement
-        
-        if (todayTab) {
-          todayTab.scrollIntoView({
-            behavior: 'smooth',
-            block: 'nearest',
-            inline: 'center'
-          })
-        }
-      }
+  // Set while the strip scrolls itself (centering a tab), so its scroll events do not
+  // count as the user nearing an edge. Cleared once the scroll events stop.
+  const isAutoScrolling = useRef(false)
+  const autoScrollTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const markAutoScrolling = useCallback(() => {
+    isAutoScrolling.current = true
+    if (autoScrollTimer.current) clearTimeout(autoScrollTimer.current)
+    autoScrollTimer.current = setTimeout(() => {
+      isAutoScrolling.current = false
+      autoScrollTimer.current = null
+    }, SCROLL_SETTLE_TIME)
+  }, [])
+
+  const scrollToDate = useCallback((date: string) => {
+    const tab = tabsListRef.current?.querySelector(`[data-date="${date}"]`) as HTMLElement | null
+    if (tab) markAutoScrolling()
+    tab?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'nearest',
+      inline: 'center'
+    })
+  }, [markAutoScrolling])
+
+  // Select a tab and report it (e.g. to update the URL)
+  const selectDate = useCallback((date: string) => {
+    setSelectedDate(date)
+    onSelectedDateChange?.(date)
+  }, [onSelectedDateChange])
+
+  // Load a window of days around a date that is not in the strip
+  const jumpTarget = useRef<string | null>(null)
+  const jumpToDate = useCallback(async (date: string) => {
+    if (jumpTarget.current === date) return
+    jumpTarget.current = date
+    setIsJumping(true)
+    try {
+      const menu = await getCenteredMenu(parse(date, "yyyyMMdd", new Date()), 2, 2, language)
+      setDays(menu.days)
+      // Weekends are not in the strip, fall back to the closest earlier day
+      const target = [...menu.days].reverse().find(d => d.date <= date) ?? menu.days[0]
+      setSelectedDate(target.date)
+      hasInitialScrolled.current = false
+    } catch (error) {
+      console.error("Failed to load requested day:", error)
+    } finally {
+      jumpTarget.current = null
+      setIsJumping(false)
     }
-  }), [today, todayIndex])
+  }, [language])
+
+  // Select any day, loading it first if it is outside the strip
+  const goToDate = useCallback((date: string) => {
+    selectDate(date)
+    if (daysRef.current.some(d => d.date === date)) {
+      scrollToDate(date)
+    } else {
+      jumpToDate(date)
+    }
+  }, [selectDate, scrollToDate, jumpToDate])
+
+  // Expose navigation methods via ref
+  useImperativeHandle(ref, () => ({
+    goToToday: () => goToDate(today),
+    goToDate,
+  }), [today, goToDate])
 
   // Update days when initialDays change (language change)
   useEffect(() => {
     setDays(initialDays)
-    // Reset selected date to today if available
-    const todayExists = initialDays.some(d => d.date === today)
-    if (todayExists) {
-      setSelectedDate(today)
+    // Keep the requested date if it is loaded, otherwise reset to today (or the closest open day) if available
+    const requested = requestedDateRef.current
+    const fallback = getDefaultDate(initialDays, today)
+    if (requested && initialDays.some(d => d.date === requested)) {
+      setSelectedDate(requested)
+    } else if (initialDays.some(d => d.date === fallback)) {
+      setSelectedDate(fallback)
     } else if (initialDays.length > 0) {
       // Find the middle day
       const middleIndex = Math.floor(initialDays.length / 2)
@@ -83,85 +227,326 @@ export const DateTabs = forwardRef<DateTabsRef, DateTabsProps>(function DateTabs
     hasInitialScrolled.current = false
   }, [initialDays, today])
 
-  const formatTabDate = (dateStr: string) => {
-    const date = parse(dateStr, "yyyyMMdd", new Date())
-    const locale = locales[language]
-
-    switch (language) {
-      case "ko":
-        return format(date, "M/d (EEE)", { locale })
-      case "zh":
-        return format(date, "M/d EEE", { locale })
-      case "sv":
-        return format(date, "d/M EEE", { locale })
-      default:
-        return format(date, "M/d EEE", { locale })
+  // Follow the requested date (deep links, back/forward navigation)
+  useEffect(() => {
+    const target = requestedDate ?? getDefaultDate(daysRef.current, today)
+    if (daysRef.current.some(d => d.date === target)) {
+      setSelectedDate(target)
+      scrollToDate(target)
+    } else if (requestedDate) {
+      jumpToDate(requestedDate)
     }
-  }
+  }, [requestedDate, today, scrollToDate, jumpToDate])
+
+  // The first tab in view and where it sits, to put it back after days are
+  // added or dropped on the left so the strip does not jump
+  const scrollAnchor = useRef<{ date: string; offset: number } | null>(null)
+
+  const rememberScrollAnchor = useCallback(() => {
+    const container = tabsListRef.current
+    if (!container) return
+    const left = container.getBoundingClientRect().left
+    const tab = Array.from(container.querySelectorAll<HTMLElement>("[data-date]"))
+      .find(element => element.getBoundingClientRect().right > left)
+    if (tab?.dataset.date) {
+      scrollAnchor.current = { date: tab.dataset.date, offset: tab.getBoundingClientRect().left - left }
+    }
+  }, [])
+
+  useBrowserLayoutEffect(() => {
+    const anchor = scrollAnchor.current
+    const container = tabsListRef.current
+    scrollAnchor.current = null
+    if (!anchor || !container) return
+
+    const tab = container.querySelector<HTMLElement>(`[data-date="${anchor.date}"]`)
+    if (tab) {
+      container.scrollLeft += tab.getBoundingClientRect().left - container.getBoundingClientRect().left - anchor.offset
+    }
+  }, [days])
+
+  // Days beyond an edge of the strip. The idle prefetch and the edge loaders ask for
+  // the same batch, so a request still running is shared instead of sent twice.
+  const edgeRequests = useRef(new Map<string, Promise<DayMenu[]>>())
+  const fetchBeyondEdge = useCallback((date: string, direction: "before" | "after") => {
+    const key = `${language}:${direction}:${date}`
+    const pending = edgeRequests.current.get(key)
+    if (pending) return pending
+
+    const request = getAdditionalDays(parse(date, "yyyyMMdd", new Date()), direction, LOAD_BATCH, language)
+    edgeRequests.current.set(key, request)
+    const forget = () => {
+      if (edgeRequests.current.get(key) === request) edgeRequests.current.delete(key)
+    }
+    request.then(forget, forget)
+    return request
+  }, [language])
 
-  // Load more days to the left (past)
-  const loadMoreLeft = useCallback(async () => {
-    if (isLoadingLeft || days.length === 0) return
+  // Load more days to the left (past); resolves to the days added
+  const loadMoreLeft = useCallback(async (): Promise<DayMenu[]> => {
+    if (loadingEdges.current.left || days.length === 0) return []
     
+    loadingEdges.current.left = true
     setIsLoadingLeft(true)
     try {
-      const firstDate = parse(days[0].date, "yyyyMMdd", new Date())
-      const newDays = await getAdditionalDays(firstDate, "before", 2, language)
-      setDays(prev => [...newDays, ...prev])
+      const newDays = await fetchBeyondEdge(days[0].date, "before")
+      rememberScrollAnchor()
+      setDays(prev => trimDays([...newDays, ...prev], "end", selectedDateRef.current))
+      return newDays
     } catch (error) {
       console.error("Failed to load more days:", error)
+      return []
     } finally {
+      loadingEdges.current.left = false
       setIsLoadingLeft(false)
     }
-  }, [days, language, isLoadingLeft])
+  }, [days, fetchBeyondEdge, rememberScrollAnchor])
 
-  // Load more days to the right (future)
-  const loadMoreRight = useCallback(async () => {
-    if (isLoadingRight || days.length === 0) return
+  // Load more days to the right (future); resolves to the days added
+  const loadMoreRight = useCallback(async (): Promise<DayMenu[]> => {
+    if (loadingEdges.current.right || days.length === 0) return []
     
+    loadingEdges.current.right = true
     setIsLoadingRight(true)
     try {
-      const lastDate = parse(days[days.length - 1].date, "yyyyMMdd", new Date())
-      const newDays = await getAdditionalDays(lastDate, "after", 2, language)
-      setDays(prev => [...prev, ...newDays])
+      const newDays = await fetchBeyondEdge(days[days.length - 1].date, "after")
+      rememberScrollAnchor()
+      setDays(prev => trimDays([...prev, ...newDays], "start", selectedDateRef.current))
+      return newDays
     } catch (error) {
       console.error("Failed to load more days:", error)
+      return []
     } finally {
+      loadingEdges.current.right = false
       setIsLoadingRight(false)
     }
-  }, [days, language, isLoadingRight])
+  }, [days, fetchBeyondEdge, rememberScrollAnchor])
+
+  // Grow the strip as the user scrolls it close to either end
+  const handleTabsScroll = () => {
+    const container = tabsListRef.current
+    if (!container || isJumping) return
+    if (isAutoScrolling.current) {
+      markAutoScrolling()
+      return
+    }
+
+    if (container.scrollLeft < EDGE_DISTANCE) {
+      loadMoreLeft()
+    } else if (container.scrollWidth - container.clientWidth - container.scrollLeft < EDGE_DISTANCE) {
+      loadMoreRight()
+    }
+  }
+
+  // Warm the cache with the next batch beyond each end while the browser is idle,
+  // so scrolling into it does not wait on the network
+  const prefetchedEdges = useRef(new Set<string>())
+  useEffect(() => {
+    if (days.length === 0) return
+
+    const edges = [
+      { date: days[0].date, direction: "before" as const },
+      { date: days[days.length - 1].date, direction: "after" as const },
+    ].filter(({ date, direction }) => !prefetchedEdges.current.has(`${language}:${direction}:${date}`))
+    if (edges.length === 0) return
+
+    return runWhenIdle(() => {
+      for (const { date, direction } of edges) {
+        prefetchedEdges.current.add(`${language}:${direction}:${date}`)
+        fetchBeyondEdge(date, direction).catch(error => console.warn("Failed to prefetch days:", error))
+      }
+    })
+  }, [days, language, fetchBeyondEdge])
 
-  // Scroll to center on today only on initial mount or language change
+  // Forget the Korean menus of days that were dropped from the strip
   useEffect(() => {
-    if (tabsListRef.current && todayIndex >= 0 && !hasInitialScrolled.current) {
+    setOriginals(prev => {
+      const kept = Object.fromEntries(Object.entries(prev).filter(([date]) => days.some(d => d.date === date)))
+      return Object.keys(kept).length === Object.keys(prev).length ? prev : kept
+    })
+  }, [days])
+
+  // Move one day back or forward, loading more days when stepping past either end
+  const stepDay = useCallback(async (direction: -1 | 1) => {
+    const index = days.findIndex(d => d.date === selectedDate)
+    if (index === -1) return
+
+    const adjacent = days[index + direction]
+    if (adjacent) {
+      selectDate(adjacent.date)
+      scrollToDate(adjacent.date)
+      return
+    }
+
+    const newDays = direction < 0 ? await loadMoreLeft() : await loadMoreRight()
+    const next = direction < 0 ? newDays[newDays.length - 1] : newDays[0]
+    if (!next) return
+    selectDate(next.date)
+    // Wait for the new tab to be rendered before scrolling to it
+    requestAnimationFrame(() => {
+      requestAnimationFrame(() => scrollToDate(next.date))
+    })
+  }, [days, selectedDate, selectDate, scrollToDate, loadMoreLeft, loadMoreRight])
+
+  // Keyboard shortcuts: arrow keys step through the days, "t" goes to today
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Focused tabs handle the arrow keys themselves and mark the event
+      if (event.defaultPrevented || event.altKey || event.ctrlKey || event.metaKey) return
+      const target = event.target as HTMLElement | null
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return
+      // Not behind a dialog, or while another view hides the tabs
+      if (document.querySelector("[aria-modal='true']") || !tabsListRef.current?.offsetParent) return
+
+      if (event.key === "ArrowLeft" || event.key === "ArrowRight") {
+        event.preventDefault()
+        stepDay(event.key === "ArrowLeft" ? -1 : 1)
+      } else if (event.key === "t") {
+        goToDate(today)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [stepDay, goToDate, today])
+
+  // Swipes on the menu move between days. Only touch starts a drag, so the mouse
+  // can still select text.
+  const dragControls = useDragControls()
+
+  const handleDragEnd = (_event: PointerEvent, { offset, velocity }: PanInfo) => {
+    const distance = Math.abs(offset.x)
+    const isSwipe = distance > SWIPE_DISTANCE || (distance > SWIPE_MIN_DISTANCE && Math.abs(velocity.x) > SWIPE_VELOCITY)
+    if (isSwipe) stepDay(offset.x < 0 ? 1 : -1)
+  }
+
+  // In bilingual mode, fetch the Korean menus for the days in the strip alongside them
+  useEffect(() => {
+    if (!withOriginals) return
+
+    const missing = days
+      .filter(d => !d.holiday && !originalsRef.current[d.date])
+      .map(d => parse(d.date, "yyyyMMdd", new Date()))
+    if (missing.length === 0) return
+
+    let cancelled = false
+    getMenusForDates(missing, ORIGINAL_LANGUAGE)
+      .then(menus => {
+        if (cancelled) return
+        const loaded = menus.filter(menu => !isDayMenuFailed(menu))
+        setOriginals(prev => ({ ...prev, ...Object.fromEntries(loaded.map(menu => [menu.date, menu])) }))
+      })
+      .catch(error => console.error("Failed to load Korean originals:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [days, withOriginals])
+
+  // Look ahead for favorites. Matching on the Korean menus too finds a dish that
+  // was starred while reading the menu in another language.
+  useEffect(() => {
+    if (favorites.length === 0) {
+      setUpcomingFavorites([])
+      return
+    }
+
+    const start = parse(today, "yyyyMMdd", new Date())
+    const dates = getWorkingDaysBetween(start, addDays(start, COMING_UP_DAYS))
+
+    let cancelled = false
+    Promise.all([
+      getMenusForDates(dates, language),
+      language === ORIGINAL_LANGUAGE ? Promise.resolve([]) : getMenusForDates(dates, ORIGINAL_LANGUAGE),
+    ])
+      .then(([menus, originalMenus]) => {
+        if (cancelled) return
+        const loadedOriginals = originalMenus.filter(menu => !isDayMenuFailed(menu))
+        setUpcomingFavorites(findUpcomingFavorites(
+          menus.filter(menu => !isDayMenuFailed(menu)),
+          favorites,
+          Object.fromEntries(loadedOriginals.map(menu => [menu.date, menu]))
+        ))
+      })
+      .catch(error => console.error("Failed to look ahead for favorites:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [favorites, language, today])
+
+  // Swap in fresher menus from background revalidation and flag the changed cards
+  const updateTimers = useRef(new Set<ReturnType<typeof setTimeout>>())
+  useEffect(() => {
+    const timers = updateTimers.current
+    return () => {
+      timers.forEach(clearTimeout)
+      timers.clear()
+    }
+  }, [])
+
+  useMenuUpdates((menu) => {
+    if (menu.language === ORIGINAL_LANGUAGE && menu.language !== language) {
+      setOriginals(prev => (prev[menu.date] ? { ...prev, [menu.date]: menu } : prev))
+      return
+    }
+    if (menu.language !== language) return
+    setDays(prev => prev.map(d => (d.date === menu.date ? menu : d)))
+    setUpdatedDates(prev => new Set(prev).add(menu.date))
+    const timer = setTimeout(() => {
+      updateTimers.current.delete(timer)
+      setUpdatedDates(prev => {
+        const next = new Set(prev)
+        next.delete(menu.date)
+        return next
+      })
+    }, UPDATED_INDICATOR_DURATION)
+    updateTimers.current.add(timer)
+  })
+
+  // Refetch a day that failed to load
+  const { retryDay, retryingDates } = useDayRetry(language, (dayMenu) => {
+    setDays(prev => prev.map(d => (d.date === dayMenu.date ? dayMenu : d)))
+  })
+
+  // Scroll to center on the selected day only on initial mount, language change or jump
+  useEffect(() => {
+    if (tabsListRef.current && !hasInitialScrolled.current) {
+      // The strip starts out scrolled to its left end; that is not the user nearing it
+      markAutoScrolling()
       // Wait for layout to be fully calculated
       requestAnimationFrame(() => {
         requestAnimationFrame(() => {
           const container = tabsListRef.current
-          if (!container) return
-          
-          const tabs = container.querySelectorAll('[role="tab"]')
-          const todayTab = tabs[todayIndex] as HTMLElement
-          
-          if (todayTab) {
-            // Use scrollIntoView for more accurate centering
-            todayTab.scrollIntoView({
-              behavior: 'smooth',
-              block: 'nearest',
-              inline: 'center'
-            })
-            
-            hasInitialScrolled.current = true
-          }
+          if (!container?.querySelector(`[data-date="${selectedDate}"]`)) return
+
+          scrollToDate(selectedDate)
+          hasInitialScrolled.current = true
         })
       })
     }
-  }, [todayIndex, days])
+  }, [selectedDate, days, scrollToDate, markAutoScrolling])
 
   const selectedMenu = days.find(d => d.date === selectedDate)
+  const messages = getMessages(language)
+  const showSafeCounts = isDietaryProfileActive(dietaryProfile)
+
+  // Days in the strip with a favorite, plus any found by the look-ahead
+  const favoriteDates = new Set(upcomingFavorites.map(({ date }) => date))
+  for (const day of days) {
+    if (findFavoriteItems(day, favorites, originals[day.date]).length > 0) favoriteDates.add(day.date)
+  }
 
   return (
-    <Tabs value={selectedDate} onValueChange={setSelectedDate} className="w-full">
+    <Tabs value={selectedDate} onValueChange={selectDate} className="w-full">
+      {favorites.length > 0 && (
+        <ComingUpStrip
+          upcoming={upcomingFavorites.slice(0, COMING_UP_LIMIT)}
+          language={language}
+          today={today}
+          onSelect={goToDate}
+        />
+      )}
       <div className="relative flex items-center gap-2 mb-4">
         {/* Left navigation button */}
         <Button
@@ -179,25 +564,54 @@ export const DateTabs = forwardRef<DateTabsRef, DateTabsProps>(function DateTabs
         </Button>
 
         {/* Tabs list */}
-        <TabsList ref={tabsListRef} className="flex-1 justify-center">
-          {days.map((day) => (
-            <TabsTrigger
-              key={day.date}
-              value={day.date}
-              className={cn(
-                "min-w-[80px] sm:min-w-[100px] group",
-                day.date === today &&
-                  "data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
-              )}
-            >
-              <span className="flex flex-col items-center gap-1">
-                <span className="text-xs sm:text-sm">{formatTabDate(day.date)}</span>
-                {day.date === today && (
-                  <span className="w-1.5 h-1.5 rounded-full bg-primary group-data-[state=active]:bg-primary-foreground transition-colors" />
+        <TabsList ref={tabsListRef} onScroll={handleTabsScroll} className="flex-1 [&>:first-child]:ml-auto [&>:last-child]:mr-auto">
+          {days.map((day) => {
+            const safeCount = showSafeCounts && !isDayMenuFailed(day) ? countSafeItems(day, dietaryProfile) : null
+            return (
+              <TabsTrigger
+                key={day.date}
+                value={day.date}
+                data-date={day.date}
+                className={cn(
+                  "min-w-[80px] sm:min-w-[100px] group",
+                  day.date === today &&
+                    "data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
                 )}
-              </span>
-            </TabsTrigger>
-          ))}
+              >
+                <span className="flex flex-col items-center gap-1">
+                  <span className="text-xs sm:text-sm">{formatDate(day.date, language, "tab")}</span>
+                  {day.holiday && (
+                    <span className="text-[10px] leading-none text-destructive/80 max-w-[88px] truncate">
+                      {day.holiday}
+                    </span>
+                  )}
+                  {day.date === today && (
+                    <span className="w-1.5 h-1.5 rounded-full bg-primary group-data-[state=active]:bg-primary-foreground transition-colors" />
+                  )}
+                  {day.date !== today && isDayMenuFailed(day) && (
+                    <span className="w-1.5 h-1.5 rounded-full bg-destructive" />
+                  )}
+                  {day.date !== today && !isDayMenuFailed(day) && favoriteDates.has(day.date) && (
+                    <span className="w-1.5 h-1.5 rounded-full bg-amber-400" />
+                  )}
+                  {safeCount && safeCount.total > 0 && (
+                    <span
+                      title={messages.dietaryProfile.safeCount(safeCount.safe, safeCount.total)}
+                      className={cn(
+                        "flex items-center gap-0.5 text-[10px] leading-none",
+                        safeCount.safe > 0 ? "text-salad" : "text-destructive/80",
+                        day.date === today && "group-data-[state=active]:text-primary-foreground"
+                      )}
+                    >
+                      <ShieldCheck className="h-3 w-3" />
+                      <span aria-hidden="true">{safeCount.safe}/{safeCount.total}</span>
+                      <span className="sr-only">{messages.dietaryProfile.safeCount(safeCount.safe, safeCount.total)}</span>
+                    </span>
+                  )}
+                </span>
+              </TabsTrigger>
+            )
+          })}
         </TabsList>
 
         {/* Right navigation button */}
@@ -216,27 +630,54 @@ export const DateTabs = forwardRef<DateTabsRef, DateTabsProps>(function DateTabs
         </Button>
       </div>
 
-      <AnimatePresence mode="wait">
-        {days.map((day) => (
-          <TabsContent key={day.date} value={day.date} className="mt-0">
-            <motion.div
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -10 }}
-              transition={{ duration: 0.2 }}
-            >
-              {day.lunch.length > 0 ||
-              day.dinner.length > 0 ||
-              day.salad ||
-              day.dessert ? (
-                <MenuCard menu={day} />
-              ) : (
-                <EmptyMenuCard language={language} />
-              )}
-            </motion.div>
-          </TabsContent>
-        ))}
-      </AnimatePresence>
+      {isJumping && <MenuCardSkeleton />}
+
+      <motion.div
+        drag="x"
+        dragControls={dragControls}
+        dragListener={false}
+        dragDirectionLock
+        dragConstraints={{ left: 0, right: 0 }}
+        dragElastic={0.25}
+        onPointerDown={event => {
+          if (event.pointerType === "touch") dragControls.start(event)
+        }}
+        onDragEnd={handleDragEnd}
+        className="touch-pan-y"
+      >
+        <AnimatePresence mode="wait">
+          {!isJumping && days.map((day) => (
+            <TabsContent key={day.date} value={day.date} className="mt-0">
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                transition={{ duration: 0.2 }}
+              >
+                {isDayMenuFailed(day) ? (
+                  <ErrorMenuCard
+                    language={language}
+                    onRetry={() => retryDay(day.date)}
+                    isRetrying={retryingDates.has(day.date)}
+                  />
+                ) : !isMenuEmpty(day) ? (
+                  <MenuCard
+                    menu={day}
+                    original={withOriginals ? originals[day.date] : undefined}
+                    highlightedItemId={highlightedItem?.date === day.date ? highlightedItem.id : undefined}
+                    isUpdated={updatedDates.has(day.date)}
+                    profile={dietaryProfile}
+                    favorites={favorites}
+                    onFavoriteToggle={onFavoriteToggle && (item => onFavoriteToggle(item, day))}
+                  />
+                ) : (
+                  <EmptyMenuCard language={language} holiday={day.holiday} />
+                )}
+              </motion.div>
+            </TabsContent>
+          ))}
+        </AnimatePresence>
+      </motion.div>
     </Tabs>
   )
 })
@@ -0,0 +1,94 @@
+"use client"
+
+import { Language } from "@/services/menuService"
+import { ALLERGENS, Allergen } from "@/types/menu"
+import { getMessages } from "@/i18n"
+import { DietaryProfile, EMPTY_DIETARY_PROFILE, isDietaryProfileActive } from "@/lib/dietaryProfile"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "./ui/dialog"
+import { Button } from "./ui/button"
+import { Check, Leaf } from "lucide-react"
+
+interface DietaryProfileDialogProps {
+  open: boolean
+  language: Language
+  profile: DietaryProfile
+  onChange: (profile: DietaryProfile) => void // Called on every change; there is no save step
+  onClose: () => void
+}
+
+export function DietaryProfileDialog({ open, language, profile, onChange, onClose }: DietaryProfileDialogProps) {
+  const messages = getMessages(language)
+
+  const toggleAllergen = (allergen: Allergen) => {
+    const avoid = profile.avoid.includes(allergen)
+      ? profile.avoid.filter(a => a !== allergen)
+      : ALLERGENS.filter(a => a === allergen || profile.avoid.includes(a))
+    onChange({ ...profile, avoid })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent onClose={onClose} className="sm:max-w-lg flex flex-col max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle>{messages.dietaryProfile.title}</DialogTitle>
+          <DialogDescription>{messages.dietaryProfile.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="mt-4 -mx-2 px-2 overflow-y-auto">
+          <h3 className="text-sm font-semibold mb-2">{messages.dietaryProfile.avoid}</h3>
+          <div className="flex flex-wrap gap-1.5">
+            {ALLERGENS.map(allergen => {
+              const selected = profile.avoid.includes(allergen)
+              return (
+                <Button
+                  key={allergen}
+                  variant={selected ? "destructive" : "outline"}
+                  size="sm"
+                  aria-pressed={selected}
+                  className="h-7 gap-1 px-2.5 text-xs"
+                  onClick={() => toggleAllergen(allergen)}
+                >
+                  {selected && <Check className="h-3 w-3" />}
+                  {messages.tags.allergens[allergen]}
+                </Button>
+              )
+            })}
+          </div>
+
+          <div className="mt-5 space-y-2">
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={profile.preferVegetarian}
+                onChange={event => onChange({ ...profile, preferVegetarian: event.target.checked })}
+                className="h-4 w-4 accent-primary"
+              />
+              <Leaf className="h-4 w-4 text-salad" />
+              {messages.dietaryProfile.preferVegetarian}
+            </label>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={profile.hideConflicts}
+                onChange={event => onChange({ ...profile, hideConflicts: event.target.checked })}
+                className="h-4 w-4 accent-primary"
+              />
+              {messages.dietaryProfile.hideConflicts}
+            </label>
+          </div>
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={!isDietaryProfileActive(profile) && !profile.hideConflicts}
+            onClick={() => onChange(EMPTY_DIETARY_PROFILE)}
+          >
+            {messages.dietaryProfile.clear}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,13 @@
 "use client"
 
-import { Language, LANGUAGES } from "@/services/menuService"
+import { useTransition } from "react"
+import { Language } from "@/services/menuService"
+import { SUPPORTED_LANGUAGES } from "@/types/menu"
+import { getMessages } from "@/i18n"
+import { ORIGINAL_LANGUAGE } from "@/lib/language"
+import { ViewMode } from "@/lib/viewMode"
+import { cn } from "@/lib/utils"
+import { changeLanguage } from "@/app/actions"
 import { ThemeToggle } from "./theme-toggle"
 import { Button } from "./ui/button"
 import {
@@ -9,7 +16,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "./ui/dropdown-menu"
-import { Globe } from "lucide-react"
+import { CalendarDays, CalendarRange, Globe, Languages, Search, ShieldCheck } from "lucide-react"
 import Image from "next/image"
 import { motion } from "framer-motion"
 
@@ -17,16 +24,40 @@ interface HeaderProps {
   language: Language
   onLanguageChange: (lang: Language) => void
   onTodayClick?: () => void
+  onSearchClick?: () => void
+  bilingual?: boolean // Korean originals shown alongside the menu
+  onBilingualChange?: (enabled: boolean) => void
+  onDietaryProfileClick?: () => void
+  dietaryProfileActive?: boolean // A profile is set and filtering the menu
+  viewMode?: ViewMode
+  onViewModeChange?: (mode: ViewMode) => void // The week switch only shows on wide screens
 }
 
-const languageFlags: Record<Language, string> = {
-  ko: "🇰🇷",
-  en: "🇺🇸",
-  zh: "🇨🇳",
-  sv: "🇸🇪",
-}
+export function Header({
+  language,
+  onLanguageChange,
+  onTodayClick,
+  onSearchClick,
+  bilingual = false,
+  onBilingualChange,
+  onDietaryProfileClick,
+  dietaryProfileActive = false,
+  viewMode = "day",
+  onViewModeChange,
+}: HeaderProps) {
+  const [, startTransition] = useTransition()
+  const messages = getMessages(language)
+
+  // Switch right away, then save the preference on the server for the next render
+  const handleLanguageSelect = (lang: Language) => {
+    onLanguageChange(lang)
+    const formData = new FormData()
+    formData.set("language", lang)
+    startTransition(() => {
+      changeLanguage(formData).catch(error => console.warn("Failed to save language:", error))
+    })
+  }
 
-export function Header({ language, onLanguageChange, onTodayClick }: HeaderProps) {
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container max-w-2xl mx-auto flex h-14 items-center justify-between px-4">
@@ -60,29 +91,84 @@ export function Header({ language, onLanguageChange, onTodayClick }: HeaderProps
         </motion.button>
 
         <div className="flex items-center gap-2">
+          {onSearchClick && (
+            <Button variant="ghost" size="icon" onClick={onSearchClick} title={messages.search.open} className="h-9 w-9">
+              <Search className="h-4 w-4" />
+              <span className="sr-only">{messages.search.open}</span>
+            </Button>
+          )}
+          {onViewModeChange && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onViewModeChange(viewMode === "week" ? "day" : "week")}
+              aria-pressed={viewMode === "week"}
+              title={viewMode === "week" ? messages.week.hide : messages.week.show}
+              className={cn("hidden lg:inline-flex h-9 w-9", viewMode === "week" && "bg-accent text-accent-foreground")}
+            >
+              <CalendarRange className="h-4 w-4" />
+              <span className="sr-only">{viewMode === "week" ? messages.week.hide : messages.week.show}</span>
+            </Button>
+          )}
+          {onViewModeChange && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onViewModeChange(viewMode === "month" ? "day" : "month")}
+              aria-pressed={viewMode === "month"}
+              title={viewMode === "month" ? messages.month.hide : messages.month.show}
+              className={cn("h-9 w-9", viewMode === "month" && "bg-accent text-accent-foreground")}
+            >
+              <CalendarDays className="h-4 w-4" />
+              <span className="sr-only">{viewMode === "month" ? messages.month.hide : messages.month.show}</span>
+            </Button>
+          )}
+          {onDietaryProfileClick && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onDietaryProfileClick}
+              title={messages.dietaryProfile.open}
+              className={cn("h-9 w-9", dietaryProfileActive && "bg-accent text-accent-foreground")}
+            >
+              <ShieldCheck className="h-4 w-4" />
+              <span className="sr-only">{messages.dietaryProfile.open}</span>
+            </Button>
+          )}
+          {onBilingualChange && language !== ORIGINAL_LANGUAGE && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onBilingualChange(!bilingual)}
+              aria-pressed={bilingual}
+              title={bilingual ? messages.bilingual.hide : messages.bilingual.show}
+              className={cn("h-9 w-9", bilingual && "bg-accent text-accent-foreground")}
+            >
+              <Languages className="h-4 w-4" />
+              <span className="sr-only">{bilingual ? messages.bilingual.hide : messages.bilingual.show}</span>
+            </Button>
+          )}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="sm" className="gap-2">
                 <Globe className="h-4 w-4" />
                 <span className="hidden sm:inline-block">
-                  {LANGUAGES[language]}
+                  {messages.language.name}
                 </span>
-                <span className="sm:hidden">{languageFlags[language]}</span>
+                <span className="sm:hidden">{messages.language.flag}</span>
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              {(Object.entries(LANGUAGES) as [Language, string][]).map(
-                ([code, name]) => (
-                  <DropdownMenuItem
-                    key={code}
-                    onClick={() => onLanguageChange(code)}
-                    className={language === code ? "bg-accent" : ""}
-                  >
-                    <span className="mr-2">{languageFlags[code]}</span>
-                    {name}
-                  </DropdownMenuItem>
-                )
-              )}
+              {SUPPORTED_LANGUAGES.map((code) => (
+                <DropdownMenuItem
+                  key={code}
+                  onClick={() => handleLanguageSelect(code)}
+                  className={language === code ? "bg-accent" : ""}
+                >
+                  <span className="mr-2">{getMessages(code).language.flag}</span>
+                  {getMessages(code).language.name}
+                </DropdownMenuItem>
+              ))}
             </DropdownMenuContent>
           </DropdownMenu>
           <ThemeToggle />
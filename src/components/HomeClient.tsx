@@ -0,0 +1,456 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import { usePathname, useSearchParams } from "next/navigation"
+import { parse } from "date-fns"
+import {
+  getCenteredMenu,
+  getMenusForDates,
+  isDayMenuFailed,
+  primeDayCache,
+  subscribeToMenuUpdates,
+  Language,
+} from "@/services/menuService"
+import { DayMenu, MenuItem, WeekMenu, isLanguage } from "@/types/menu"
+import { Header } from "@/components/Header"
+import { EmptyMenuCard } from "@/components/MenuCard"
+import { DateTabs, DateTabsSkeleton, DateTabsRef } from "@/components/DateTabs"
+import { LanguageSelectModal } from "@/components/LanguageSelectModal"
+import { LanguageSuggestionBanner } from "@/components/LanguageSuggestionBanner"
+import { AlertCircle } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { cn, getTodayKST, parseDateParam } from "@/lib/utils"
+import { BILINGUAL_STORAGE_KEY, LANGUAGE_STORAGE_KEY, ORIGINAL_LANGUAGE, detectBrowserLanguage } from "@/lib/language"
+import { changeLanguage } from "@/app/actions"
+import { StorageUsage } from "@/components/StorageUsage"
+import { SearchPanel } from "@/components/SearchPanel"
+import { getMessages } from "@/i18n"
+import { WeekGrid } from "@/components/WeekGrid"
+import { MonthCalendar } from "@/components/MonthCalendar"
+import { VIEW_MODE_STORAGE_KEY, ViewMode, isViewMode } from "@/lib/viewMode"
+import { DietaryProfileDialog } from "@/components/DietaryProfileDialog"
+import {
+  DIETARY_PROFILE_STORAGE_KEY,
+  DietaryProfile,
+  EMPTY_DIETARY_PROFILE,
+  isDietaryProfileActive,
+  parseDietaryProfile,
+} from "@/lib/dietaryProfile"
+import {
+  FAVORITES_STORAGE_KEY,
+  FavoriteDish,
+  createFavorite,
+  matchFavorites,
+  parseFavorites,
+  withOriginalName,
+} from "@/lib/favorites"
+
+interface HomeClientProps {
+  initialMenu: WeekMenu | null // Rendered on the server; null when that failed
+  initialLanguage: Language
+  cookieLanguage: Language | null // The preference the server knows about
+}
+
+const HIGHLIGHT_DURATION = 4000 // How long a search result stays highlighted
+
+// Save a preference on the server outside the Header and LanguageSelectModal flows
+function persistLanguage(lang: Language) {
+  const formData = new FormData()
+  formData.set("language", lang)
+  changeLanguage(formData).catch(error => console.warn("Failed to save language:", error))
+}
+
+export function HomeClient({ initialMenu, initialLanguage, cookieLanguage }: HomeClientProps) {
+  const [days, setDays] = useState<DayMenu[]>(initialMenu?.days ?? [])
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(!initialMenu)
+  const [savedLanguage, setSavedLanguage] = useState<Language>(initialLanguage)
+  const [showLanguageModal, setShowLanguageModal] = useState(false)
+  const [showLanguageSuggestion, setShowLanguageSuggestion] = useState(false)
+  const [bilingual, setBilingual] = useState(false)
+  const [showSearch, setShowSearch] = useState(false)
+  const [highlightedItem, setHighlightedItem] = useState<{ date: string; id: number } | null>(null)
+  const [dietaryProfile, setDietaryProfile] = useState<DietaryProfile>(EMPTY_DIETARY_PROFILE)
+  const [showDietaryProfile, setShowDietaryProfile] = useState(false)
+  const [favorites, setFavorites] = useState<FavoriteDish[]>([])
+  const [viewMode, setViewMode] = useState<ViewMode>("day")
+
+  const dateTabsRef = useRef<DateTabsRef>(null)
+
+  // The server-rendered menu stands in for the first fetch, as long as the language still matches
+  const initialMenuRef = useRef(initialMenu ? { menu: initialMenu, language: initialLanguage } : null)
+
+  // Date and language can be deep-linked: /?date=yyyyMMdd&lang=sv
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const urlLanguage = searchParams.get("lang")
+  const urlDate = parseDateParam(searchParams.get("date"))
+  const language = isLanguage(urlLanguage) ? urlLanguage : savedLanguage
+
+  // The fetch below centers on the linked date without refetching on every tab change
+  const urlDateRef = useRef(urlDate)
+  urlDateRef.current = urlDate
+
+  // Push a history entry so back/forward walk through selections. The history API
+  // keeps useSearchParams in sync without a navigation, so the server page is not
+  // rendered again for a menu that is already on screen.
+  const updateUrl = useCallback((updates: { date?: string; lang?: Language }) => {
+    const params = new URLSearchParams(searchParams.toString())
+    Object.entries(updates).forEach(([key, value]) => params.set(key, value))
+    if (params.toString() === searchParams.toString()) return
+    window.history.pushState(null, "", `${pathname}?${params.toString()}`)
+  }, [pathname, searchParams])
+
+  const handleSelectedDateChange = useCallback((date: string) => {
+    updateUrl({ date })
+  }, [updateUrl])
+
+  // Use KST timezone to ensure correct date in Korea
+  const today = getTodayKST()
+
+  // Go to today's menu
+  const handleTodayClick = () => {
+    dateTabsRef.current?.goToToday()
+  }
+
+  // Reconcile the saved language preference with what the server rendered
+  useEffect(() => {
+    const storedLanguage = localStorage.getItem(LANGUAGE_STORAGE_KEY)
+
+    if (isLanguage(storedLanguage)) {
+      // Preferences saved before the cookie existed are handed to the server once
+      if (storedLanguage !== cookieLanguage) {
+        persistLanguage(storedLanguage)
+      }
+      setSavedLanguage(storedLanguage)
+    } else if (cookieLanguage) {
+      // Local storage was cleared, but the server still remembers
+      localStorage.setItem(LANGUAGE_STORAGE_KEY, cookieLanguage)
+      setSavedLanguage(cookieLanguage)
+    } else if (!isLanguage(new URLSearchParams(window.location.search).get("lang"))) {
+      // First visit without a language in the link - show the menu in the browser's
+      // language right away and suggest changing it, without blocking anything
+      const detectedLanguage = detectBrowserLanguage()
+      if (detectedLanguage) {
+        setSavedLanguage(detectedLanguage)
+      }
+      setShowLanguageSuggestion(true)
+    }
+  }, [cookieLanguage])
+
+  // Jump to a search result and point it out for a moment
+  const handleSearchSelect = (date: string, id: number) => {
+    setShowSearch(false)
+    dateTabsRef.current?.goToDate(date)
+    setHighlightedItem({ date, id })
+  }
+
+  useEffect(() => {
+    if (!highlightedItem) return
+    const timer = setTimeout(() => setHighlightedItem(null), HIGHLIGHT_DURATION)
+    return () => clearTimeout(timer)
+  }, [highlightedItem])
+
+  // Bilingual mode is remembered per device
+  useEffect(() => {
+    setBilingual(localStorage.getItem(BILINGUAL_STORAGE_KEY) === "true")
+  }, [])
+
+  const handleBilingualChange = (enabled: boolean) => {
+    localStorage.setItem(BILINGUAL_STORAGE_KEY, String(enabled))
+    setBilingual(enabled)
+  }
+
+  // So is the choice between the date tabs and the week grid
+  useEffect(() => {
+    const storedViewMode = localStorage.getItem(VIEW_MODE_STORAGE_KEY)
+    if (isViewMode(storedViewMode)) setViewMode(storedViewMode)
+  }, [])
+
+  const handleViewModeChange = (mode: ViewMode) => {
+    localStorage.setItem(VIEW_MODE_STORAGE_KEY, mode)
+    setViewMode(mode)
+  }
+
+  // Open a day from the week grid in the date tabs
+  const handleWeekDaySelect = (date: string) => {
+    handleViewModeChange("day")
+    dateTabsRef.current?.goToDate(date)
+  }
+
+  // The dietary profile is remembered per device too
+  useEffect(() => {
+    setDietaryProfile(parseDietaryProfile(localStorage.getItem(DIETARY_PROFILE_STORAGE_KEY)))
+  }, [])
+
+  const handleDietaryProfileChange = (profile: DietaryProfile) => {
+    localStorage.setItem(DIETARY_PROFILE_STORAGE_KEY, JSON.stringify(profile))
+    setDietaryProfile(profile)
+  }
+
+  // Favorites are remembered per device as well
+  const favoritesRef = useRef(favorites)
+  favoritesRef.current = favorites
+
+  const saveFavorites = useCallback((next: FavoriteDish[]) => {
+    localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(next))
+    favoritesRef.current = next
+    setFavorites(next)
+  }, [])
+
+  // Give favorites their Korean name from the Korean menus of their dates
+  const addOriginalNames = useCallback((originals: DayMenu[]) => {
+    const byDate = new Map(originals.filter(menu => !isDayMenuFailed(menu)).map(menu => [menu.date, menu]))
+    const current = favoritesRef.current
+    const next = current.map(favorite => {
+      const original = byDate.get(favorite.date)
+      return original && !favorite.names[ORIGINAL_LANGUAGE] ? withOriginalName(favorite, original) : favorite
+    })
+    if (next.some((favorite, index) => favorite !== current[index])) saveFavorites(next)
+  }, [saveFavorites])
+
+  // A favorite starred while its Korean menu could not be loaded has no Korean name
+  // yet; look it up again until it does
+  const lookUpOriginalNames = useCallback(() => {
+    const dates = Array.from(new Set(
+      favoritesRef.current.filter(favorite => !favorite.names[ORIGINAL_LANGUAGE]).map(favorite => favorite.date)
+    ))
+    if (dates.length === 0) return
+
+    getMenusForDates(dates.map(date => parse(date, "yyyyMMdd", new Date())), ORIGINAL_LANGUAGE)
+      .then(addOriginalNames)
+      .catch(error => console.warn("Failed to look up the Korean names of favorites:", error))
+  }, [addOriginalNames])
+
+  // On every visit, when the connection comes back and when a Korean menu is refreshed
+  useEffect(() => {
+    const stored = parseFavorites(localStorage.getItem(FAVORITES_STORAGE_KEY))
+    favoritesRef.current = stored
+    setFavorites(stored)
+    lookUpOriginalNames()
+
+    window.addEventListener("online", lookUpOriginalNames)
+    const unsubscribe = subscribeToMenuUpdates(menu => {
+      if (menu.language === ORIGINAL_LANGUAGE) addOriginalNames([menu])
+    })
+    return () => {
+      window.removeEventListener("online", lookUpOriginalNames)
+      unsubscribe()
+    }
+  }, [lookUpOriginalNames, addOriginalNames])
+
+  // Star or unstar a dish. A new favorite also learns its Korean name, so the
+  // dish is recognized whichever language the menu is read in later.
+  const handleFavoriteToggle = (item: MenuItem, menu: DayMenu) => {
+    const matching = matchFavorites(item, menu, favoritesRef.current)
+    if (matching.length > 0) {
+      saveFavorites(favoritesRef.current.filter(favorite => !matching.includes(favorite)))
+      return
+    }
+
+    saveFavorites([...favoritesRef.current, createFavorite(item, menu.date, language)])
+    if (language !== ORIGINAL_LANGUAGE) lookUpOriginalNames()
+  }
+
+  // The Header and LanguageSelectModal save the preference on the server themselves
+  const saveLanguage = (lang: Language) => {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, lang)
+    setSavedLanguage(lang)
+  }
+
+  // Keep the suggested language
+  const handleSuggestionAccept = () => {
+    saveLanguage(savedLanguage)
+    persistLanguage(savedLanguage)
+    setShowLanguageSuggestion(false)
+  }
+
+  // Handle language selection from modal
+  const handleLanguageSelect = (lang: Language) => {
+    saveLanguage(lang)
+    setShowLanguageModal(false)
+    setShowLanguageSuggestion(false)
+  }
+
+  // Handle language change from header dropdown
+  const handleLanguageChange = (lang: Language) => {
+    saveLanguage(lang)
+    setShowLanguageSuggestion(false)
+    updateUrl({ lang })
+  }
+
+  // Fetch menu when language changes
+  useEffect(() => {
+    const initial = initialMenuRef.current
+    initialMenuRef.current = null
+    if (initial?.language === language) {
+      // Already on screen; just keep it for later visits and lookups
+      primeDayCache(initial.menu.days, language)
+      return
+    }
+
+    const fetchMenu = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        // Fetch centered menu (2 days before, the linked day or today, 2 days after)
+        const center = urlDateRef.current ? parse(urlDateRef.current, "yyyyMMdd", new Date()) : new Date()
+        const menu = await getCenteredMenu(center, 2, 2, language)
+        setDays(menu.days)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch menu")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchMenu()
+  }, [language])
+
+  const messages = getMessages(language)
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header
+          language={language}
+          onLanguageChange={handleLanguageChange}
+          onTodayClick={handleTodayClick}
+          onSearchClick={() => setShowSearch(true)}
+          bilingual={bilingual}
+          onBilingualChange={handleBilingualChange}
+          onDietaryProfileClick={() => setShowDietaryProfile(true)}
+          dietaryProfileActive={isDietaryProfileActive(dietaryProfile)}
+          viewMode={viewMode}
+          onViewModeChange={handleViewModeChange}
+        />
+        <main className="flex-1 flex items-center justify-center p-4">
+          <Card className="max-w-md w-full">
+            <CardContent className="py-8 flex flex-col items-center text-center">
+              <AlertCircle className="h-12 w-12 text-destructive mb-4" />
+              <h2 className="text-xl font-semibold mb-2">{messages.page.errorTitle}</h2>
+              <p className="text-muted-foreground mb-4">{error}</p>
+              <Button onClick={() => window.location.reload()}>{messages.menu.retry}</Button>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-b from-background to-muted/30">
+      <Header
+        language={language}
+        onLanguageChange={handleLanguageChange}
+        onTodayClick={handleTodayClick}
+        onSearchClick={() => setShowSearch(true)}
+        bilingual={bilingual}
+        onBilingualChange={handleBilingualChange}
+        onDietaryProfileClick={() => setShowDietaryProfile(true)}
+        dietaryProfileActive={isDietaryProfileActive(dietaryProfile)}
+        viewMode={viewMode}
+        onViewModeChange={handleViewModeChange}
+      />
+      <LanguageSuggestionBanner
+        open={showLanguageSuggestion}
+        language={language}
+        onAccept={handleSuggestionAccept}
+        onChange={() => setShowLanguageModal(true)}
+      />
+
+      <main
+        className={cn(
+          "flex-1 container max-w-2xl mx-auto px-4 py-6",
+          viewMode === "week" && "lg:max-w-6xl",
+          viewMode === "month" && "lg:max-w-4xl"
+        )}
+      >
+        {isLoading ? (
+          <DateTabsSkeleton />
+        ) : days.length > 0 ? (
+          <>
+            {/* The tabs stay mounted under the other views; the week grid only fits wide screens */}
+            <div className={cn(viewMode === "week" && "lg:hidden", viewMode === "month" && "hidden")}>
+              <DateTabs
+                ref={dateTabsRef}
+                initialDays={days}
+                language={language}
+                today={today}
+                requestedDate={urlDate}
+                showOriginals={bilingual}
+                highlightedItem={highlightedItem}
+                dietaryProfile={dietaryProfile}
+                favorites={favorites}
+                onFavoriteToggle={handleFavoriteToggle}
+                onSelectedDateChange={handleSelectedDateChange}
+              />
+            </div>
+            {viewMode === "week" && (
+              <WeekGrid
+                className="hidden lg:block"
+                language={language}
+                today={today}
+                anchorDate={urlDate ?? today}
+                profile={dietaryProfile}
+                favorites={favorites}
+                onSelectDate={handleWeekDaySelect}
+              />
+            )}
+            {viewMode === "month" && (
+              <MonthCalendar
+                language={language}
+                today={today}
+                anchorDate={urlDate ?? today}
+                profile={dietaryProfile}
+                favorites={favorites}
+                onFavoriteToggle={handleFavoriteToggle}
+              />
+            )}
+          </>
+        ) : (
+          <EmptyMenuCard language={language} />
+        )}
+      </main>
+
+      <footer className="py-6 border-t">
+        <div className="flex flex-col items-center gap-1.5">
+          <a
+            href="https://www.linkedin.com/in/sungwoonsong"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Made by Sungwoon Song
+          </a>
+          <p className="text-xs text-muted-foreground/60 text-center px-4 hidden sm:block">
+            Though I&apos;ve moved on from Ericsson, I hope this site helps my former colleagues enjoy their meals.
+          </p>
+          <StorageUsage language={language} />
+        </div>
+      </footer>
+
+      <SearchPanel
+        open={showSearch}
+        language={language}
+        today={today}
+        onClose={() => setShowSearch(false)}
+        onSelect={handleSearchSelect}
+      />
+      <DietaryProfileDialog
+        open={showDietaryProfile}
+        language={language}
+        profile={dietaryProfile}
+        onChange={handleDietaryProfileChange}
+        onClose={() => setShowDietaryProfile(false)}
+      />
+      <LanguageSelectModal
+        open={showLanguageModal}
+        language={language}
+        onSelect={handleLanguageSelect}
+        onClose={() => setShowLanguageModal(false)}
+      />
+    </div>
+  )
+}
@@ -1,33 +1,38 @@
 "use client"
 
-import { Language, LANGUAGES } from "@/services/menuService"
+import { useTransition } from "react"
+import { Language } from "@/services/menuService"
+import { SUPPORTED_LANGUAGES } from "@/types/menu"
+import { getMessages } from "@/i18n"
+import { changeLanguage } from "@/app/actions"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog"
 import { motion } from "framer-motion"
 import Image from "next/image"
 
 interface LanguageSelectModalProps {
   open: boolean
+  language: Language // Language the picker itself is shown in
   onSelect: (lang: Language) => void
+  onClose: () => void
 }
 
-const languageFlags: Record<Language, string> = {
-  ko: "🇰🇷",
-  en: "🇺🇸",
-  zh: "🇨🇳",
-  sv: "🇸🇪",
-}
+export function LanguageSelectModal({ open, language, onSelect, onClose }: LanguageSelectModalProps) {
+  const [, startTransition] = useTransition()
+  const messages = getMessages(language)
 
-const languageDescriptions: Record<Language, string> = {
-  ko: "한국어로 메뉴를 확인합니다",
-  en: "View menu in English",
-  zh: "用中文查看菜单",
-  sv: "Visa menyn på svenska",
-}
+  // Close right away, then save the preference on the server for the next render
+  const handleSelect = (lang: Language) => {
+    onSelect(lang)
+    const formData = new FormData()
+    formData.set("language", lang)
+    startTransition(() => {
+      changeLanguage(formData).catch(error => console.warn("Failed to save language:", error))
+    })
+  }
 
-export function LanguageSelectModal({ open, onSelect }: LanguageSelectModalProps) {
   return (
-    <Dialog open={open} onOpenChange={() => {}}>
-      <DialogContent showClose={false} className="sm:max-w-md">
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent onClose={onClose} className="sm:max-w-md">
         <DialogHeader className="text-center sm:text-center">
           <motion.div 
             className="mx-auto mb-2"
@@ -44,31 +49,32 @@ export function LanguageSelectModal({ open, onSelect }: LanguageSelectModalProps
               priority
             />
           </motion.div>
-          <DialogTitle className="text-2xl">Welcome to Gasan Menu</DialogTitle>
+          <DialogTitle className="text-2xl">{messages.languageSelect.title}</DialogTitle>
           <DialogDescription className="text-base">
-            Please select your preferred language
+            {messages.languageSelect.description}
           </DialogDescription>
         </DialogHeader>
 
         <div className="grid grid-cols-2 gap-3 mt-6">
-          {(Object.entries(LANGUAGES) as [Language, string][]).map(
-            ([code, name], index) => (
+          {SUPPORTED_LANGUAGES.map((code, index) => {
+            const { name, flag, description } = getMessages(code).language
+            return (
               <motion.button
                 key={code}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: index * 0.1 }}
-                onClick={() => onSelect(code)}
+                onClick={() => handleSelect(code)}
                 className="group relative flex flex-col items-center gap-2 rounded-xl border-2 border-border bg-card p-4 transition-all hover:border-primary hover:bg-accent hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
               >
-                <span className="text-4xl">{languageFlags[code]}</span>
+                <span className="text-4xl">{flag}</span>
                 <span className="font-semibold text-lg">{name}</span>
                 <span className="text-xs text-muted-foreground text-center">
-                  {languageDescriptions[code]}
+                  {description}
                 </span>
               </motion.button>
             )
-          )}
+          })}
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,51 @@
+"use client"
+
+import { Language } from "@/services/menuService"
+import { getMessages } from "@/i18n"
+import { Button } from "./ui/button"
+import { motion, AnimatePresence } from "framer-motion"
+import { Globe, X } from "lucide-react"
+
+interface LanguageSuggestionBannerProps {
+  open: boolean
+  language: Language // The language the menu is shown in
+  onAccept: () => void
+  onChange: () => void
+}
+
+export function LanguageSuggestionBanner({ open, language, onAccept, onChange }: LanguageSuggestionBannerProps) {
+  // Written in the suggested language itself, so visitors can read it
+  const text = getMessages(language).languageSuggestion
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          role="status"
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: "auto" }}
+          exit={{ opacity: 0, height: 0 }}
+          className="overflow-hidden border-b bg-muted/50"
+        >
+          <div className="container max-w-2xl mx-auto flex items-center gap-3 px-4 py-2">
+            <Globe className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <p className="flex-1 text-sm text-muted-foreground">{text.message}</p>
+            <Button variant="ghost" size="sm" onClick={onChange}>
+              {text.change}
+            </Button>
+            <Button variant="secondary" size="sm" onClick={onAccept} className="hidden sm:inline-flex">
+              {text.accept}
+            </Button>
+            <button
+              onClick={onAccept}
+              className="rounded-sm opacity-70 transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-ring sm:hidden"
+            >
+              <X className="h-4 w-4" />
+              <span className="sr-only">{text.accept}</span>
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -1,30 +1,214 @@
 "use client"
 
-import { DayMenu as DayMenuType, MenuItem } from "@/types/menu"
-import { format, parse } from "date-fns"
-import { ko, enUS, zhCN, sv } from "date-fns/locale"
+import { Allergen, DayMenu as DayMenuType, DietaryFlag, MenuItem } from "@/types/menu"
+import { formatDate, getMessages, type Messages } from "@/i18n"
+import { getItemTags } from "@/lib/menuTags"
+import { DietaryProfile, EMPTY_DIETARY_PROFILE, ItemVerdict, checkItem } from "@/lib/dietaryProfile"
+import { FavoriteDish, findFavoriteItems } from "@/lib/favorites"
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
 import { Badge } from "./ui/badge"
-import { Sun, Moon, Salad, Cookie } from "lucide-react"
-import { motion } from "framer-motion"
+import { Button } from "./ui/button"
+import {
+  Sun, Moon, Salad, Cookie, AlertCircle, RotateCw, RefreshCw,
+  Bean, BadgeCheck, Beef, Cherry, Drumstick, Egg, Fish, Flame, Ham, Leaf, Milk, Nut, PiggyBank, Shell, Shrimp, Wheat, Wine,
+  Star, TriangleAlert,
+  type LucideIcon,
+} from "lucide-react"
+import { motion, AnimatePresence } from "framer-motion"
+import { useEffect, useRef } from "react"
+import { cn } from "@/lib/utils"
 import Image from "next/image"
 
 interface MenuCardProps {
   menu: DayMenuType
+  original?: DayMenuType // The same day in Korean, for bilingual mode
+  highlightedItemId?: number // Item to point out, e.g. a search result
+  isUpdated?: boolean // Content just changed after a background refresh
+  profile?: DietaryProfile // Dims or hides items that conflict with it
+  favorites?: FavoriteDish[]
+  onFavoriteToggle?: (item: MenuItem) => void // Shows a star on every item when set
 }
 
-const locales = {
-  ko,
-  en: enUS,
-  zh: zhCN,
-  sv,
+// Korean item names by id, matched against the translated items
+function getOriginalNames(original?: DayMenuType): Map<number, string> {
+  const names = new Map<number, string>()
+  if (!original) return names
+  for (const item of [...original.lunch, ...original.dinner, original.salad, original.dessert]) {
+    if (item?.name) names.set(item.id, item.name)
+  }
+  return names
+}
+
+const ALLERGEN_ICONS: Record<Allergen, LucideIcon> = {
+  eggs: Egg,
+  milk: Milk,
+  buckwheat: Wheat,
+  peanut: Nut,
+  soybean: Bean,
+  wheat: Wheat,
+  mackerel: Fish,
+  crab: Shrimp,
+  shrimp: Shrimp,
+  pork: Ham,
+  peach: Cherry,
+  tomato: Cherry,
+  sulfites: Wine,
+  walnut: Nut,
+  chicken: Drumstick,
+  beef: Beef,
+  squid: Fish,
+  shellfish: Shell,
+  pine_nut: Nut,
+}
+
+const DIETARY_BADGES: Record<DietaryFlag, { icon: LucideIcon; className: string }> = {
+  vegetarian: { icon: Leaf, className: "bg-salad/15 text-salad" },
+  pork: { icon: PiggyBank, className: "bg-pink-500/15 text-pink-600 dark:text-pink-400" },
+  beef: { icon: Beef, className: "bg-amber-700/15 text-amber-700 dark:text-amber-500" },
+  spicy: { icon: Flame, className: "bg-red-500/15 text-red-600 dark:text-red-400" },
+  halal_friendly: { icon: BadgeCheck, className: "bg-emerald-600/15 text-emerald-700 dark:text-emerald-400" },
+}
+
+// Dietary flags as round icons, allergens as labelled badges.
+// Tags guessed from the menu text are drawn lighter and say so on hover.
+function ItemTagBadges({ item, labels }: { item: MenuItem; labels: Messages["tags"] }) {
+  const { allergens, dietary, inferredAllergens, inferredDietary } = getItemTags(item)
+  if (allergens.length === 0 && dietary.length === 0) return null
+
+  const describe = (label: string, inferred: boolean) => (inferred ? `${label} · ${labels.inferred}` : label)
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1">
+      {dietary.map(flag => {
+        const { icon: Icon, className } = DIETARY_BADGES[flag]
+        const label = describe(labels.dietary[flag], inferredDietary)
+        return (
+          <span
+            key={flag}
+            title={label}
+            className={cn("inline-flex h-5 w-5 items-center justify-center rounded-full", className, inferredDietary && "opacity-70")}
+          >
+            <Icon className="h-3 w-3" />
+            <span className="sr-only">{label}</span>
+          </span>
+        )
+      })}
+      {allergens.map(allergen => {
+        const Icon = ALLERGEN_ICONS[allergen]
+        return (
+          <Badge
+            key={allergen}
+            variant="outline"
+            title={describe(labels.allergens[allergen], inferredAllergens)}
+            className={cn(
+              "gap-1 px-1.5 py-0 text-[10px] font-medium text-muted-foreground",
+              inferredAllergens && "border-dashed"
+            )}
+          >
+            <Icon className="h-3 w-3" />
+            {labels.allergens[allergen]}
+          </Badge>
+        )
+      })}
+    </div>
+  )
+}
+
+// Why an item conflicts with the dietary profile, or that it matches a preference
+function ProfileNotice({ verdict, labels, tagLabels }: {
+  verdict: ItemVerdict
+  labels: Messages["dietaryProfile"]
+  tagLabels: Messages["tags"]
+}) {
+  if (verdict.conflicts.length > 0) {
+    return (
+      <p className="mt-1 flex items-center gap-1 text-xs font-medium text-destructive">
+        <TriangleAlert className="h-3.5 w-3.5 shrink-0" />
+        {labels.contains(verdict.conflicts.map(allergen => tagLabels.allergens[allergen]).join(", "))}
+      </p>
+    )
+  }
+  if (verdict.preferred) {
+    return (
+      <p className="mt-1 flex items-center gap-1 text-xs font-medium text-salad">
+        <Leaf className="h-3.5 w-3.5 shrink-0" />
+        {labels.preferred}
+      </p>
+    )
+  }
+  return null
+}
+
+// Side dishes, with a warning on the ones that contain something the profile avoids
+function SubMenuList({ item, verdict, labels, tagLabels }: {
+  item: MenuItem
+  verdict: ItemVerdict
+  labels: Messages["dietaryProfile"]
+  tagLabels: Messages["tags"]
+}) {
+  if (!item.sub_menus || item.sub_menus.length === 0) return null
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {item.sub_menus.map((subItem, subIndex) => {
+        const risky = verdict.riskySides.get(subIndex)
+        const warning = risky && labels.contains(risky.map(allergen => tagLabels.allergens[allergen]).join(", "))
+        return (
+          <li
+            key={subIndex}
+            title={warning}
+            className={cn(
+              "text-sm text-muted-foreground flex items-start gap-1.5",
+              risky && "text-amber-600 dark:text-amber-400"
+            )}
+          >
+            {risky ? (
+              <TriangleAlert className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            ) : (
+              <span className="text-muted-foreground/50">•</span>
+            )}
+            {subItem}
+            {warning && <span className="sr-only">{warning}</span>}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+function FavoriteButton({ active, labels, onClick }: {
+  active: boolean
+  labels: Messages["favorites"]
+  onClick: () => void
+}) {
+  const label = active ? labels.remove : labels.add
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={onClick}
+      aria-pressed={active}
+      title={label}
+      className="h-7 w-7 shrink-0 text-muted-foreground hover:text-amber-500"
+    >
+      <Star className={cn("h-4 w-4", active && "fill-amber-400 text-amber-400")} />
+      <span className="sr-only">{label}</span>
+    </Button>
+  )
 }
 
-const dateFormats = {
-  ko: "M월 d일 (EEEE)",
-  en: "MMMM d, EEEE",
-  zh: "M月d日 EEEE",
-  sv: "d MMMM, EEEE",
+function HiddenNotice({ count, labels }: { count: number; labels: Messages["dietaryProfile"] }) {
+  return <p className="text-xs text-muted-foreground italic">{labels.hidden(count)}</p>
+}
+
+function OriginalName({ item, originalNames }: { item: MenuItem; originalNames: Map<number, string> }) {
+  const name = originalNames.get(item.id)
+  if (!name || name === item.name) return null
+  return (
+    <p lang="ko" className="text-sm text-muted-foreground">
+      {name}
+    </p>
+  )
 }
 
 interface MealSectionProps {
@@ -33,6 +217,14 @@ interface MealSectionProps {
   items: MenuItem[]
   variant: "lunch" | "dinner" | "salad" | "dessert"
   emptyMessage: string
+  originalNames: Map<number, string>
+  highlightedItemId?: number
+  tagLabels: Messages["tags"]
+  profile: DietaryProfile
+  profileLabels: Messages["dietaryProfile"]
+  favoriteIds: Set<number>
+  favoriteLabels: Messages["favorites"]
+  onFavoriteToggle?: (item: MenuItem) => void
 }
 
 function MealSection({
@@ -41,6 +233,14 @@ function MealSection({
   items,
   variant,
   emptyMessage,
+  originalNames,
+  highlightedItemId,
+  tagLabels,
+  profile,
+  profileLabels,
+  favoriteIds,
+  favoriteLabels,
+  onFavoriteToggle,
 }: MealSectionProps) {
   const bgColors = {
     lunch: "bg-lunch/5 dark:bg-lunch/10",
@@ -63,6 +263,13 @@ function MealSection({
     dessert: "text-dessert",
   }
 
+  // A highlighted item stays visible even if the profile would hide it
+  const checked = items.map(item => ({ item, verdict: checkItem(item, profile) }))
+  const visible = checked.filter(({ item, verdict }) =>
+    !profile.hideConflicts || verdict.conflicts.length === 0 || item.id === highlightedItemId
+  )
+  const hiddenCount = items.length - visible.length
+
   return (
     <div className={`rounded-xl ${bgColors[variant]} p-4`}>
       <div className="flex items-center gap-2 mb-3">
@@ -72,42 +279,50 @@ function MealSection({
 
       {items.length > 0 ? (
         <div className="space-y-3">
-          {items.map((item, index) => (
+          {visible.map(({ item, verdict }, index) => (
             <motion.div
               key={index}
               initial={{ opacity: 0, x: -10 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: index * 0.05 }}
-              className={`border-l-4 ${borderColors[variant]} pl-3 py-1`}
+              data-item-id={item.id}
+              className={cn(
+                `border-l-4 ${borderColors[variant]} pl-3 py-1 transition-[color,background-color,opacity]`,
+                verdict.conflicts.length > 0 && "opacity-50",
+                item.id === highlightedItemId && "rounded-r-md bg-primary/10 ring-2 ring-primary/40"
+              )}
             >
               <div className="flex items-start justify-between gap-2">
-                <h4 className="font-medium text-foreground">{item.name}</h4>
-                {item.corner_name && (
-                  <Badge variant={variant} className="text-xs shrink-0">
-                    {item.corner_name}
-                  </Badge>
-                )}
+                <div>
+                  <h4 className="font-medium text-foreground">{item.name}</h4>
+                  <OriginalName item={item} originalNames={originalNames} />
+                  <ProfileNotice verdict={verdict} labels={profileLabels} tagLabels={tagLabels} />
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {onFavoriteToggle && (
+                    <FavoriteButton
+                      active={favoriteIds.has(item.id)}
+                      labels={favoriteLabels}
+                      onClick={() => onFavoriteToggle(item)}
+                    />
+                  )}
+                  {item.corner_name && (
+                    <Badge variant={variant} className="text-xs">
+                      {item.corner_name}
+                    </Badge>
+                  )}
+                </div>
               </div>
               {item.description && (
                 <p className="text-sm text-muted-foreground mt-1 italic">
                   {item.description}
                 </p>
               )}
-              {item.sub_menus && item.sub_menus.length > 0 && (
-                <ul className="mt-2 space-y-1">
-                  {item.sub_menus.map((subItem, subIndex) => (
-                    <li
-                      key={subIndex}
-                      className="text-sm text-muted-foreground flex items-start gap-1.5"
-                    >
-                      <span className="text-muted-foreground/50">•</span>
-                      {subItem}
-                    </li>
-                  ))}
-                </ul>
-              )}
+              <SubMenuList item={item} verdict={verdict} labels={profileLabels} tagLabels={tagLabels} />
+              <ItemTagBadges item={item} labels={tagLabels} />
             </motion.div>
           ))}
+          {hiddenCount > 0 && <HiddenNotice count={hiddenCount} labels={profileLabels} />}
         </div>
       ) : (
         <p className="text-sm text-muted-foreground italic">{emptyMessage}</p>
@@ -121,11 +336,27 @@ function SingleItemSection({
   icon,
   item,
   variant,
+  originalNames,
+  highlightedItemId,
+  tagLabels,
+  profile,
+  profileLabels,
+  favoriteIds,
+  favoriteLabels,
+  onFavoriteToggle,
 }: {
   title: string
   icon: React.ReactNode
   item: MenuItem
   variant: "salad" | "dessert"
+  originalNames: Map<number, string>
+  highlightedItemId?: number
+  tagLabels: Messages["tags"]
+  profile: DietaryProfile
+  profileLabels: Messages["dietaryProfile"]
+  favoriteIds: Set<number>
+  favoriteLabels: Messages["favorites"]
+  onFavoriteToggle?: (item: MenuItem) => void
 }) {
   const bgColors = {
     salad: "bg-salad/5 dark:bg-salad/10",
@@ -142,6 +373,9 @@ function SingleItemSection({
     dessert: "text-dessert",
   }
 
+  const verdict = checkItem(item, profile)
+  const hidden = profile.hideConflicts && verdict.conflicts.length > 0 && item.id !== highlightedItemId
+
   return (
     <div className={`rounded-xl ${bgColors[variant]} p-4`}>
       <div className="flex items-center gap-2 mb-3">
@@ -149,92 +383,149 @@ function SingleItemSection({
         <h3 className={`font-semibold ${textColors[variant]}`}>{title}</h3>
       </div>
 
-      <div className={`border-l-4 ${borderColors[variant]} pl-3 py-1`}>
-        <h4 className="font-medium text-foreground">{item.name}</h4>
-        {item.description && (
-          <p className="text-sm text-muted-foreground mt-1 italic">
-            {item.description}
-          </p>
-        )}
-        {item.sub_menus && item.sub_menus.length > 0 && (
-          <ul className="mt-2 space-y-1">
-            {item.sub_menus.map((subItem, subIndex) => (
-              <li
-                key={subIndex}
-                className="text-sm text-muted-foreground flex items-start gap-1.5"
-              >
-                <span className="text-muted-foreground/50">•</span>
-                {subItem}
-              </li>
-            ))}
-          </ul>
-        )}
-      </div>
+      {hidden ? (
+        <HiddenNotice count={1} labels={profileLabels} />
+      ) : (
+        <div
+          data-item-id={item.id}
+          className={cn(
+            `border-l-4 ${borderColors[variant]} pl-3 py-1 transition-[color,background-color,opacity]`,
+            verdict.conflicts.length > 0 && "opacity-50",
+            item.id === highlightedItemId && "rounded-r-md bg-primary/10 ring-2 ring-primary/40"
+          )}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <h4 className="font-medium text-foreground">{item.name}</h4>
+            {onFavoriteToggle && (
+              <FavoriteButton
+                active={favoriteIds.has(item.id)}
+                labels={favoriteLabels}
+                onClick={() => onFavoriteToggle(item)}
+              />
+            )}
+          </div>
+          <OriginalName item={item} originalNames={originalNames} />
+          <ProfileNotice verdict={verdict} labels={profileLabels} tagLabels={tagLabels} />
+          {item.description && (
+            <p className="text-sm text-muted-foreground mt-1 italic">
+              {item.description}
+            </p>
+          )}
+          <SubMenuList item={item} verdict={verdict} labels={profileLabels} tagLabels={tagLabels} />
+          <ItemTagBadges item={item} labels={tagLabels} />
+        </div>
+      )}
     </div>
   )
 }
 
-export function MenuCard({ menu }: MenuCardProps) {
-  const date = parse(menu.date, "yyyyMMdd", new Date())
-  const locale = locales[menu.language as keyof typeof locales] || enUS
-  const dateFormat =
-    dateFormats[menu.language as keyof typeof dateFormats] || dateFormats.en
-  const formattedDate = format(date, dateFormat, { locale })
-
-  const noMenuText = {
-    ko: "메뉴가 없습니다",
-    en: "No menu available",
-    zh: "没有菜单",
-    sv: "Ingen meny tillgänglig",
-  }
-
-  const mealLabels = {
-    lunch: { ko: "점심", en: "Lunch", zh: "午餐", sv: "Lunch" },
-    dinner: { ko: "저녁", en: "Dinner", zh: "晚餐", sv: "Middag" },
-    salad: { ko: "샐러드", en: "Salad", zh: "沙拉", sv: "Sallad" },
-    dessert: { ko: "디저트", en: "Dessert", zh: "甜点", sv: "Efterrätt" },
-  }
+export function MenuCard({
+  menu,
+  original,
+  highlightedItemId,
+  isUpdated = false,
+  profile = EMPTY_DIETARY_PROFILE,
+  favorites = [],
+  onFavoriteToggle,
+}: MenuCardProps) {
+  const cardRef = useRef<HTMLDivElement>(null)
+  const formattedDate = formatDate(menu.date, menu.language, "card")
+  const messages = getMessages(menu.language)
+  const originalNames = getOriginalNames(original)
+  const favoriteIds = new Set(findFavoriteItems(menu, favorites, original).map(item => item.id))
 
-  const lang = menu.language as keyof typeof noMenuText
+  // Bring the highlighted item into view once the card is shown
+  useEffect(() => {
+    if (highlightedItemId === undefined) return
+    const element = cardRef.current?.querySelector(`[data-item-id="${highlightedItemId}"]`)
+    element?.scrollIntoView({ behavior: "smooth", block: "center" })
+  }, [highlightedItemId])
 
   return (
-    <Card className="overflow-hidden">
-      <CardHeader className="pb-3">
+    <Card ref={cardRef} className="overflow-hidden">
+      <CardHeader className="pb-3 relative">
         <CardTitle className="text-xl text-center">{formattedDate}</CardTitle>
+        <AnimatePresence>
+          {isUpdated && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute right-4 top-1/2 -translate-y-1/2"
+            >
+              <Badge variant="secondary" className="gap-1 text-[10px] font-medium">
+                <RefreshCw className="h-3 w-3" />
+                {messages.menu.updated}
+              </Badge>
+            </motion.div>
+          )}
+        </AnimatePresence>
       </CardHeader>
       <CardContent className="space-y-4">
         <MealSection
-          title={mealLabels.lunch[lang] || "Lunch"}
+          title={messages.meals.lunch}
           icon={<Sun className="h-5 w-5" />}
           items={menu.lunch}
           variant="lunch"
-          emptyMessage={noMenuText[lang] || noMenuText.en}
+          emptyMessage={messages.menu.noMenu}
+          originalNames={originalNames}
+          highlightedItemId={highlightedItemId}
+          tagLabels={messages.tags}
+          profile={profile}
+          profileLabels={messages.dietaryProfile}
+          favoriteIds={favoriteIds}
+          favoriteLabels={messages.favorites}
+          onFavoriteToggle={onFavoriteToggle}
         />
 
         {menu.salad && (
           <SingleItemSection
-            title={mealLabels.salad[lang] || "Salad"}
+            title={messages.meals.salad}
             icon={<Salad className="h-5 w-5" />}
             item={menu.salad}
             variant="salad"
+            originalNames={originalNames}
+            highlightedItemId={highlightedItemId}
+            tagLabels={messages.tags}
+            profile={profile}
+            profileLabels={messages.dietaryProfile}
+            favoriteIds={favoriteIds}
+            favoriteLabels={messages.favorites}
+            onFavoriteToggle={onFavoriteToggle}
           />
         )}
 
         {menu.dessert && (
           <SingleItemSection
-            title={mealLabels.dessert[lang] || "Dessert"}
+            title={messages.meals.dessert}
             icon={<Cookie className="h-5 w-5" />}
             item={menu.dessert}
             variant="dessert"
+            originalNames={originalNames}
+            highlightedItemId={highlightedItemId}
+            tagLabels={messages.tags}
+            profile={profile}
+            profileLabels={messages.dietaryProfile}
+            favoriteIds={favoriteIds}
+            favoriteLabels={messages.favorites}
+            onFavoriteToggle={onFavoriteToggle}
           />
         )}
 
         <MealSection
-          title={mealLabels.dinner[lang] || "Dinner"}
+          title={messages.meals.dinner}
           icon={<Moon className="h-5 w-5" />}
           items={menu.dinner}
           variant="dinner"
-          emptyMessage={noMenuText[lang] || noMenuText.en}
+          emptyMessage={messages.menu.noMenu}
+          originalNames={originalNames}
+          highlightedItemId={highlightedItemId}
+          tagLabels={messages.tags}
+          profile={profile}
+          profileLabels={messages.dietaryProfile}
+          favoriteIds={favoriteIds}
+          favoriteLabels={messages.favorites}
+          onFavoriteToggle={onFavoriteToggle}
         />
       </CardContent>
     </Card>
@@ -266,13 +557,13 @@ export function MenuCardSkeleton() {
   )
 }
 
-export function EmptyMenuCard({ language }: { language: string }) {
-  const messages = {
-    ko: "오늘은 메뉴가 없습니다",
-    en: "No menu available today",
-    zh: "今天没有菜单",
-    sv: "Ingen meny tillgänglig idag",
-  }
+interface EmptyMenuCardProps {
+  language: string
+  holiday?: string // Localized holiday name when the cafeteria is closed
+}
+
+export function EmptyMenuCard({ language, holiday }: EmptyMenuCardProps) {
+  const messages = getMessages(language)
 
   return (
     <Card className="overflow-hidden">
@@ -290,11 +581,44 @@ export function EmptyMenuCard({ language }: { language: string }) {
             className="mb-2"
           />
         </motion.div>
-        <p className="text-lg text-muted-foreground">
-          {messages[language as keyof typeof messages] || messages.en}
-        </p>
+        {holiday ? (
+          <>
+            <p className="text-lg font-semibold">{holiday}</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              {messages.menu.closed}
+            </p>
+          </>
+        ) : (
+          <p className="text-lg text-muted-foreground">
+            {messages.menu.noMenuToday}
+          </p>
+        )}
       </CardContent>
     </Card>
   )
 }
 
+interface ErrorMenuCardProps {
+  language: string
+  onRetry: () => void
+  isRetrying?: boolean
+}
+
+export function ErrorMenuCard({ language, onRetry, isRetrying = false }: ErrorMenuCardProps) {
+  const messages = getMessages(language)
+
+  return (
+    <Card className="overflow-hidden">
+      <CardContent className="py-10 flex flex-col items-center justify-center text-center">
+        <AlertCircle className="h-10 w-10 text-destructive mb-3" />
+        <p className="text-lg text-muted-foreground mb-4">
+          {messages.menu.loadFailed}
+        </p>
+        <Button variant="outline" onClick={onRetry} disabled={isRetrying} className="gap-2">
+          <RotateCw className={`h-4 w-4 ${isRetrying ? "animate-spin" : ""}`} />
+          {messages.menu.retry}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
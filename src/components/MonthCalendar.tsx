@@ -0,0 +1,239 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { addDays, addMonths, addWeeks, endOfMonth, format, parse } from "date-fns"
+import { AlertCircle, ChevronLeft, ChevronRight } from "lucide-react"
+import { DayMenu, MenuItem } from "@/types/menu"
+import {
+  Language,
+  getMenusForDates,
+  getWorkingDaysBetween,
+  isDayMenuFailed,
+  isMenuEmpty,
+} from "@/services/menuService"
+import { formatDate, getMessages } from "@/i18n"
+import { getHolidayName } from "@/lib/holidays"
+import { DietaryProfile } from "@/lib/dietaryProfile"
+import { FavoriteDish, findFavoriteItems } from "@/lib/favorites"
+import { cn, getWeekStart } from "@/lib/utils"
+import { useDayRetry, useMenuUpdates } from "@/hooks/useDayMenus"
+import { Button } from "./ui/button"
+import { Dialog, DialogContent } from "./ui/dialog"
+import { MenuCard, EmptyMenuCard, ErrorMenuCard } from "./MenuCard"
+
+interface MonthCalendarProps {
+  language: Language
+  today: string
+  anchorDate: string // A date in the month to show; the calendar follows it when it changes
+  profile?: DietaryProfile
+  favorites?: FavoriteDish[]
+  onFavoriteToggle?: (item: MenuItem, menu: DayMenu) => void
+  className?: string
+}
+
+const WEEKDAYS = 5
+const HEADLINE_DISHES = 2 // Lunch dishes named in each day cell
+
+// Mondays (yyyyMMdd) of the weeks with a weekday in the month
+function getMonthWeeks(month: string): string[] {
+  const first = parse(`${month}01`, "yyyyMMdd", new Date())
+  const last = endOfMonth(first)
+  const weeks: string[] = []
+  for (let monday = getWeekStart(first); monday <= last; monday = addWeeks(monday, 1)) {
+    weeks.push(format(monday, "yyyyMMdd"))
+  }
+  return weeks
+}
+
+export function MonthCalendar({
+  language,
+  today,
+  anchorDate,
+  profile,
+  favorites = [],
+  onFavoriteToggle,
+  className,
+}: MonthCalendarProps) {
+  const [month, setMonth] = useState(anchorDate.slice(0, 6)) // yyyyMM
+  const [menus, setMenus] = useState<Record<string, DayMenu>>({}) // By date, across months
+  const [loadingWeeks, setLoadingWeeks] = useState<Set<string>>(new Set())
+  const [selectedDate, setSelectedDate] = useState<string | null>(null)
+  const messages = getMessages(language)
+
+  // Weeks already asked for in the current language; moving back to a month reuses them
+  const requestedWeeks = useRef<{ language: Language; weeks: Set<string> }>({ language, weeks: new Set() })
+
+  const weeks = getMonthWeeks(month)
+  const firstOfMonth = parse(`${month}01`, "yyyyMMdd", new Date())
+
+  useEffect(() => {
+    setMonth(anchorDate.slice(0, 6))
+  }, [anchorDate])
+
+  // Load the month a week at a time, only the weeks not seen yet
+  useEffect(() => {
+    if (requestedWeeks.current.language !== language) {
+      requestedWeeks.current = { language, weeks: new Set() }
+      setMenus({})
+    }
+    const requested = requestedWeeks.current
+
+    for (const week of getMonthWeeks(month)) {
+      if (requested.weeks.has(week)) continue
+      requested.weeks.add(week)
+
+      const monday = parse(week, "yyyyMMdd", new Date())
+      setLoadingWeeks(prev => new Set(prev).add(week))
+      getMenusForDates(getWorkingDaysBetween(monday, addDays(monday, WEEKDAYS - 1)), language)
+        .then(days => {
+          if (requestedWeeks.current !== requested) return
+          setMenus(prev => ({ ...prev, ...Object.fromEntries(days.map(day => [day.date, day])) }))
+        })
+        .catch(error => {
+          console.error("Failed to load week:", error)
+          requested.weeks.delete(week)
+        })
+        .finally(() => {
+          setLoadingWeeks(prev => {
+            const next = new Set(prev)
+            next.delete(week)
+            return next
+          })
+        })
+    }
+  }, [month, language])
+
+  // Swap in fresher menus from background revalidation
+  useMenuUpdates(menu => {
+    if (menu.language !== language) return
+    setMenus(prev => (prev[menu.date] ? { ...prev, [menu.date]: menu } : prev))
+  })
+
+  const { retryDay, retryingDates } = useDayRetry(language, menu => {
+    setMenus(prev => ({ ...prev, [menu.date]: menu }))
+  })
+
+  const shiftMonth = (months: number) => {
+    setMonth(format(addMonths(firstOfMonth, months), "yyyyMM"))
+  }
+
+  const selectedMenu = selectedDate ? menus[selectedDate] : undefined
+  const selectedHoliday = selectedDate ? selectedMenu?.holiday ?? getHolidayName(selectedDate, language) : null
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-10 w-10 shrink-0 rounded-full"
+          onClick={() => shiftMonth(-1)}
+          title={messages.month.previous}
+        >
+          <ChevronLeft className="h-4 w-4" />
+          <span className="sr-only">{messages.month.previous}</span>
+        </Button>
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-semibold">{formatDate(`${month}01`, language, "month")}</h2>
+          {month !== today.slice(0, 6) && (
+            <Button variant="ghost" size="sm" onClick={() => setMonth(today.slice(0, 6))}>
+              {messages.month.current}
+            </Button>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-10 w-10 shrink-0 rounded-full"
+          onClick={() => shiftMonth(1)}
+          title={messages.month.next}
+        >
+          <ChevronRight className="h-4 w-4" />
+          <span className="sr-only">{messages.month.next}</span>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-5 gap-1.5 sm:gap-2">
+        {/* Weekday headings, taken from the first week */}
+        {Array.from({ length: WEEKDAYS }, (_, index) => {
+          const date = format(addDays(parse(weeks[0], "yyyyMMdd", new Date()), index), "yyyyMMdd")
+          return (
+            <div key={date} className="text-center text-xs font-medium text-muted-foreground">
+              {formatDate(date, language, "weekday")}
+            </div>
+          )
+        })}
+
+        {weeks.flatMap(week => {
+          const monday = parse(week, "yyyyMMdd", new Date())
+          return Array.from({ length: WEEKDAYS }, (_, index) => {
+            const date = format(addDays(monday, index), "yyyyMMdd")
+            const day = menus[date]
+            const holiday = day?.holiday ?? getHolidayName(date, language)
+            const isLoading = !day && !holiday && loadingWeeks.has(week)
+            const headline = day && !isDayMenuFailed(day) ? day.lunch.slice(0, HEADLINE_DISHES) : []
+            const hasFavorite = day && !isDayMenuFailed(day) && findFavoriteItems(day, favorites).length > 0
+
+            return (
+              <button
+                key={date}
+                onClick={() => setSelectedDate(date)}
+                disabled={!day && !holiday}
+                className={cn(
+                  "flex min-h-[72px] sm:min-h-[96px] flex-col items-start gap-1 rounded-lg border bg-card p-1.5 sm:p-2 text-left transition-colors hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring disabled:pointer-events-none",
+                  !date.startsWith(month) && "opacity-40",
+                  date === today && "border-primary ring-1 ring-primary"
+                )}
+              >
+                <span className="flex w-full items-center justify-between">
+                  <span className={cn("text-xs font-semibold", date === today && "text-primary")}>
+                    {Number(date.slice(6))}
+                  </span>
+                  {hasFavorite && <span className="w-1.5 h-1.5 rounded-full bg-amber-400" />}
+                </span>
+                {holiday ? (
+                  <span className="text-[10px] sm:text-xs leading-tight text-destructive/80 line-clamp-2">{holiday}</span>
+                ) : isLoading ? (
+                  <span className="w-full space-y-1">
+                    <span className="block h-2.5 w-4/5 rounded bg-muted animate-pulse" />
+                    <span className="block h-2.5 w-3/5 rounded bg-muted animate-pulse" />
+                  </span>
+                ) : day && isDayMenuFailed(day) ? (
+                  <AlertCircle className="h-4 w-4 text-destructive" aria-label={messages.menu.loadFailed} />
+                ) : headline.length > 0 ? (
+                  headline.map(item => (
+                    <span key={item.id} className="w-full text-[10px] sm:text-xs leading-tight line-clamp-2">
+                      {item.name}
+                    </span>
+                  ))
+                ) : day ? (
+                  <span className="text-[10px] sm:text-xs text-muted-foreground">–</span>
+                ) : null}
+              </button>
+            )
+          })
+        })}
+      </div>
+
+      <Dialog open={selectedDate !== null} onOpenChange={isOpen => !isOpen && setSelectedDate(null)}>
+        <DialogContent
+          onClose={() => setSelectedDate(null)}
+          className="sm:max-w-2xl max-h-[85vh] overflow-y-auto p-0 border-0 bg-transparent shadow-none"
+        >
+          {selectedMenu && isDayMenuFailed(selectedMenu) ? (
+            <ErrorMenuCard language={language} onRetry={() => retryDay(selectedMenu.date)} isRetrying={retryingDates.has(selectedMenu.date)} />
+          ) : selectedMenu && !isMenuEmpty(selectedMenu) ? (
+            <MenuCard
+              menu={selectedMenu}
+              profile={profile}
+              favorites={favorites}
+              onFavoriteToggle={onFavoriteToggle && (item => onFavoriteToggle(item, selectedMenu))}
+            />
+          ) : selectedDate ? (
+            <EmptyMenuCard language={language} holiday={selectedHoliday ?? undefined} />
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
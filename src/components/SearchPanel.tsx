@@ -0,0 +1,127 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { addDays, parse } from "date-fns"
+import { Search } from "lucide-react"
+import { DayMenu } from "@/types/menu"
+import { Language, getMenusForDates, getWorkingDaysBetween, isDayMenuFailed } from "@/services/menuService"
+import { SEARCH_WINDOWS, SearchWindowId, searchMenus } from "@/lib/menuSearch"
+import { formatDate, getMessages } from "@/i18n"
+import { cn } from "@/lib/utils"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog"
+import { Button } from "./ui/button"
+
+interface SearchPanelProps {
+  open: boolean
+  language: Language
+  today: string
+  onClose: () => void
+  onSelect: (date: string, itemId: number) => void
+}
+
+export function SearchPanel({ open, language, today, onClose, onSelect }: SearchPanelProps) {
+  const [query, setQuery] = useState("")
+  const [windowId, setWindowId] = useState<SearchWindowId>("next14")
+  const [days, setDays] = useState<DayMenu[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const messages = getMessages(language)
+
+  // Load the window when the panel opens; days come from the menu cache when possible
+  useEffect(() => {
+    if (!open) return
+
+    const { from, to } = SEARCH_WINDOWS[windowId]
+    const todayDate = parse(today, "yyyyMMdd", new Date())
+    const dates = getWorkingDaysBetween(addDays(todayDate, from), addDays(todayDate, to))
+
+    let cancelled = false
+    setIsLoading(true)
+    getMenusForDates(dates, language)
+      .then(menus => {
+        if (!cancelled) setDays(menus.filter(menu => !isDayMenuFailed(menu)))
+      })
+      .catch(error => console.error("Failed to load menus for search:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, windowId, language, today])
+
+  const results = useMemo(() => searchMenus(days, query), [days, query])
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent onClose={onClose} className="sm:max-w-lg flex flex-col max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle>{messages.search.open}</DialogTitle>
+        </DialogHeader>
+
+        <div className="relative mt-4">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <input
+            type="search"
+            autoFocus
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            placeholder={messages.search.placeholder}
+            className="flex h-10 w-full rounded-md border border-input bg-background pl-9 pr-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-1.5 mt-3">
+          {(Object.keys(SEARCH_WINDOWS) as SearchWindowId[]).map(id => (
+            <Button
+              key={id}
+              variant={id === windowId ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 px-2.5 text-xs"
+              onClick={() => setWindowId(id)}
+            >
+              {messages.search.windows[id]}
+            </Button>
+          ))}
+        </div>
+
+        <div className="mt-4 -mx-2 px-2 overflow-y-auto min-h-[120px]">
+          {isLoading ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">{messages.search.loading}</p>
+          ) : !query.trim() ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">{messages.search.hint}</p>
+          ) : results.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">{messages.search.noResults}</p>
+          ) : (
+            <ul className="space-y-4">
+              {results.map(({ date, meals }) => (
+                <li key={date}>
+                  <h3 className={cn("text-sm font-semibold mb-1.5", date === today && "text-primary")}>
+                    {formatDate(date, language, "card")}
+                  </h3>
+                  {meals.map(({ meal, matches }) => (
+                    <div key={meal} className="mb-2">
+                      <p className="text-xs text-muted-foreground mb-1">{messages.meals[meal]}</p>
+                      {matches.map(({ item, matchedText }) => (
+                        <button
+                          key={item.id}
+                          onClick={() => onSelect(date, item.id)}
+                          className="w-full rounded-md px-2 py-1.5 text-left hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring"
+                        >
+                          <span className="block text-sm font-medium">{item.name}</span>
+                          {matchedText !== item.name && (
+                            <span className="block text-xs text-muted-foreground truncate">{matchedText}</span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
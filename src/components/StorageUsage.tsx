@@ -0,0 +1,38 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { HardDrive } from "lucide-react"
+import { getMenuStoreUsage, MenuStoreUsage } from "@/lib/menuStore"
+import { Language } from "@/types/menu"
+import { getMessages } from "@/i18n"
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Small readout of how much the offline menu store holds
+export function StorageUsage({ language }: { language: Language }) {
+  const [usage, setUsage] = useState<MenuStoreUsage | null>(null)
+
+  useEffect(() => {
+    const refresh = () => {
+      getMenuStoreUsage().then(setUsage).catch(() => setUsage(null))
+    }
+
+    refresh()
+    // Menus are stored as the user browses, so re-read when they come back to the tab
+    window.addEventListener("focus", refresh)
+    return () => window.removeEventListener("focus", refresh)
+  }, [])
+
+  if (!usage || usage.entries === 0) return null
+
+  return (
+    <p className="flex items-center gap-1 text-[10px] text-muted-foreground/60">
+      <HardDrive className="h-3 w-3" />
+      {getMessages(language).storage.offline(usage.entries, formatBytes(usage.bytes))}
+    </p>
+  )
+}
@@ -0,0 +1,252 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { addDays, addWeeks, format, parse } from "date-fns"
+import { ChevronLeft, ChevronRight, Cookie, Moon, RotateCw, Salad, Star, Sun } from "lucide-react"
+import { DayMenu, MenuItem } from "@/types/menu"
+import { Language, getCenteredMenu, isDayMenuFailed, isMenuEmpty } from "@/services/menuService"
+import { formatDate, getMessages } from "@/i18n"
+import { DietaryProfile, EMPTY_DIETARY_PROFILE, checkItem } from "@/lib/dietaryProfile"
+import { FavoriteDish, findFavoriteItems } from "@/lib/favorites"
+import { cn, getWeekStart } from "@/lib/utils"
+import { useDayRetry, useMenuUpdates } from "@/hooks/useDayMenus"
+import { Button } from "./ui/button"
+
+interface WeekGridProps {
+  language: Language
+  today: string
+  anchorDate: string // A date in the week to show; the grid follows it when it changes
+  profile?: DietaryProfile
+  favorites?: FavoriteDish[]
+  onSelectDate?: (date: string) => void // Open a day on its own
+  className?: string
+}
+
+const WEEKDAYS = 5
+
+function toWeekStart(date: string): string {
+  return format(getWeekStart(parse(date, "yyyyMMdd", new Date())), "yyyyMMdd")
+}
+
+function WeekItem({ item, profile, favorite }: { item: MenuItem; profile: DietaryProfile; favorite: boolean }) {
+  const conflicting = checkItem(item, profile).conflicts.length > 0
+  return (
+    <div className={cn("text-sm", conflicting && "opacity-50")}>
+      <p className="font-medium leading-snug">
+        {favorite && <Star className="inline h-3 w-3 mr-1 -mt-0.5 fill-amber-400 text-amber-400" />}
+        {item.name}
+      </p>
+      {item.sub_menus.length > 0 && (
+        <p className="text-xs text-muted-foreground leading-snug mt-0.5">{item.sub_menus.join(", ")}</p>
+      )}
+    </div>
+  )
+}
+
+export function WeekGrid({
+  language,
+  today,
+  anchorDate,
+  profile = EMPTY_DIETARY_PROFILE,
+  favorites = [],
+  onSelectDate,
+  className,
+}: WeekGridProps) {
+  const [weekStart, setWeekStart] = useState(() => toWeekStart(anchorDate))
+  const [days, setDays] = useState<DayMenu[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const messages = getMessages(language)
+
+  const monday = parse(weekStart, "yyyyMMdd", new Date())
+  const dates = Array.from({ length: WEEKDAYS }, (_, index) => format(addDays(monday, index), "yyyyMMdd"))
+  const isCurrentWeek = weekStart === toWeekStart(today)
+
+  useEffect(() => {
+    setWeekStart(toWeekStart(anchorDate))
+  }, [anchorDate])
+
+  // Centering on Wednesday covers Monday to Friday even when holidays push the
+  // window into the neighbouring weeks; those extra days are left out
+  useEffect(() => {
+    const start = parse(weekStart, "yyyyMMdd", new Date())
+    const end = format(addDays(start, WEEKDAYS - 1), "yyyyMMdd")
+
+    let cancelled = false
+    setIsLoading(true)
+    getCenteredMenu(addDays(start, 2), 2, 2, language)
+      .then(menu => {
+        if (!cancelled) setDays(menu.days.filter(day => day.date >= weekStart && day.date <= end))
+      })
+      .catch(error => console.error("Failed to load week:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [weekStart, language])
+
+  // Swap in fresher menus from background revalidation, and retried days
+  const replaceDay = (menu: DayMenu) => {
+    setDays(prev => prev.map(day => (day.date === menu.date ? menu : day)))
+  }
+  useMenuUpdates(menu => {
+    if (menu.language === language) replaceDay(menu)
+  })
+  const { retryDay, retryingDates } = useDayRetry(language, replaceDay)
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(format(addWeeks(monday, weeks), "yyyyMMdd"))
+  }
+
+  const isVisible = (item: MenuItem) => !profile.hideConflicts || checkItem(item, profile).conflicts.length === 0
+
+  const rows = [
+    { key: "lunch", label: messages.meals.lunch, icon: <Sun className="h-4 w-4" />, className: "text-lunch" },
+    { key: "sides", label: `${messages.meals.salad} · ${messages.meals.dessert}`, icon: <Salad className="h-4 w-4" />, className: "text-salad" },
+    { key: "dinner", label: messages.meals.dinner, icon: <Moon className="h-4 w-4" />, className: "text-dinner" },
+  ]
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-10 w-10 shrink-0 rounded-full"
+          onClick={() => shiftWeek(-1)}
+          title={messages.week.previous}
+        >
+          <ChevronLeft className="h-4 w-4" />
+          <span className="sr-only">{messages.week.previous}</span>
+        </Button>
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-semibold">
+            {formatDate(dates[0], language, "tab")} – {formatDate(dates[WEEKDAYS - 1], language, "tab")}
+          </h2>
+          {!isCurrentWeek && (
+            <Button variant="ghost" size="sm" onClick={() => setWeekStart(toWeekStart(today))}>
+              {messages.week.current}
+            </Button>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-10 w-10 shrink-0 rounded-full"
+          onClick={() => shiftWeek(1)}
+          title={messages.week.next}
+        >
+          <ChevronRight className="h-4 w-4" />
+          <span className="sr-only">{messages.week.next}</span>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-[auto_repeat(5,minmax(0,1fr))] gap-2">
+        {/* Day headers */}
+        <div />
+        {dates.map(date => {
+          const day = days.find(d => d.date === date)
+          return (
+            <button
+              key={date}
+              onClick={() => onSelectDate?.(date)}
+              className={cn(
+                "rounded-lg px-2 py-1.5 text-center text-sm font-medium hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring",
+                date === today && "bg-primary text-primary-foreground hover:bg-primary/90"
+              )}
+            >
+              {formatDate(date, language, "tab")}
+              {day?.holiday && (
+                <span className="block text-[10px] leading-tight text-destructive/80 truncate">{day.holiday}</span>
+              )}
+            </button>
+          )
+        })}
+
+        {/* Meal labels */}
+        {rows.map(({ key, label, icon, className: rowClassName }, index) => (
+          <div
+            key={key}
+            style={{ gridColumn: 1, gridRow: index + 2 }}
+            className={cn("flex items-start gap-1.5 pt-3 pr-1 text-xs font-semibold", rowClassName)}
+          >
+            {icon}
+            <span className="max-w-[72px]">{label}</span>
+          </div>
+        ))}
+
+        {/* Menus, one column per day */}
+        {dates.map((date, column) => {
+          const gridColumn = column + 2
+          const day = days.find(d => d.date === date)
+
+          if (isLoading || !day) {
+            return (
+              <div
+                key={date}
+                style={{ gridColumn, gridRow: "2 / span 3" }}
+                className="min-h-[240px] rounded-xl bg-muted animate-pulse"
+              />
+            )
+          }
+
+          if (isDayMenuFailed(day) || isMenuEmpty(day)) {
+            return (
+              <div
+                key={date}
+                style={{ gridColumn, gridRow: "2 / span 3" }}
+                className="flex flex-col items-center justify-center gap-2 rounded-xl bg-muted/40 p-3 text-center text-sm text-muted-foreground"
+              >
+                {isDayMenuFailed(day) ? (
+                  <>
+                    {messages.menu.loadFailed}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => retryDay(date)}
+                      disabled={retryingDates.has(date)}
+                      className="gap-1.5"
+                    >
+                      <RotateCw className={cn("h-3.5 w-3.5", retryingDates.has(date) && "animate-spin")} />
+                      {messages.menu.retry}
+                    </Button>
+                  </>
+                ) : day.holiday ? (
+                  messages.menu.closed
+                ) : (
+                  messages.menu.noMenu
+                )}
+              </div>
+            )
+          }
+
+          const favoriteIds = new Set(findFavoriteItems(day, favorites).map(item => item.id))
+          const renderItems = (items: MenuItem[]) =>
+            items.filter(isVisible).map(item => (
+              <WeekItem key={item.id} item={item} profile={profile} favorite={favoriteIds.has(item.id)} />
+            ))
+
+          return [
+            <div key={`${date}-lunch`} style={{ gridColumn, gridRow: 2 }} className="space-y-2 rounded-xl bg-lunch/5 dark:bg-lunch/10 p-3">
+              {renderItems(day.lunch)}
+            </div>,
+            <div key={`${date}-sides`} style={{ gridColumn, gridRow: 3 }} className="space-y-2 rounded-xl bg-salad/5 dark:bg-salad/10 p-3">
+              {day.salad && renderItems([day.salad])}
+              {day.dessert && (
+                <div className="flex items-start gap-1.5">
+                  <Cookie className="h-3.5 w-3.5 mt-0.5 shrink-0 text-dessert" />
+                  <div className="min-w-0">{renderItems([day.dessert])}</div>
+                </div>
+              )}
+            </div>,
+            <div key={`${date}-dinner`} style={{ gridColumn, gridRow: 4 }} className="space-y-2 rounded-xl bg-dinner/5 dark:bg-dinner/10 p-3">
+              {renderItems(day.dinner)}
+            </div>,
+          ]
+        })}
+      </div>
+    </div>
+  )
+}
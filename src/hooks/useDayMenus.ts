@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { parse } from "date-fns"
+import { DayMenu } from "@/types/menu"
+import { Language, getDayMenu, subscribeToMenuUpdates } from "@/services/menuService"
+
+/**
+ * Call `onUpdate` with every menu that background revalidation refreshes, in any
+ * language; the caller picks the ones it shows
+ */
+export function useMenuUpdates(onUpdate: (menu: DayMenu) => void) {
+  const onUpdateRef = useRef(onUpdate)
+  onUpdateRef.current = onUpdate
+
+  useEffect(() => {
+    return subscribeToMenuUpdates(menu => onUpdateRef.current(menu))
+  }, [])
+}
+
+/**
+ * Refetch days that failed to load, keeping track of the ones in progress.
+ * `onRetried` gets the new menu, which is failed again if the retry failed too.
+ */
+export function useDayRetry(language: Language, onRetried: (menu: DayMenu) => void) {
+  const [retryingDates, setRetryingDates] = useState<Set<string>>(new Set())
+  const onRetriedRef = useRef(onRetried)
+  onRetriedRef.current = onRetried
+
+  const retryDay = useCallback(async (date: string) => {
+    setRetryingDates(prev => new Set(prev).add(date))
+    try {
+      onRetriedRef.current(await getDayMenu(parse(date, "yyyyMMdd", new Date()), language))
+    } finally {
+      setRetryingDates(prev => {
+        const next = new Set(prev)
+        next.delete(date)
+        return next
+      })
+    }
+  }, [language])
+
+  return { retryDay, retryingDates }
+}
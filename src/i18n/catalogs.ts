@@ -0,0 +1,13 @@
+import type { Language } from "@/types/menu"
+import type { Messages } from "./types"
+import { ko } from "./ko"
+import { en } from "./en"
+import { zh } from "./zh"
+import { sv } from "./sv"
+import { ja } from "./ja"
+import { vi } from "./vi"
+
+// One catalog per supported language. Adding a language means listing it in
+// SUPPORTED_LANGUAGES, writing its catalog file and registering it here; a language
+// without a catalog fails to compile.
+export const catalogs = { ko, en, zh, sv, ja, vi } satisfies Record<Language, Messages>
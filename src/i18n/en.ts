@@ -0,0 +1,144 @@
+import { enUS as locale } from "date-fns/locale"
+import type { Messages } from "./types"
+
+export const en: Messages = {
+  language: {
+    name: "English",
+    flag: "🇺🇸",
+    description: "View menu in English",
+    ogLocale: "en_US",
+  },
+  dates: {
+    locale,
+    tab: "M/d EEE",
+    card: "MMMM d, EEEE",
+    month: "MMMM yyyy",
+    weekday: "EEE",
+  },
+  meals: {
+    lunch: "Lunch",
+    dinner: "Dinner",
+    salad: "Salad",
+    dessert: "Dessert",
+  },
+  menu: {
+    noMenu: "No menu available",
+    noMenuToday: "No menu available today",
+    closed: "The cafeteria is closed",
+    loadFailed: "Couldn't load this menu",
+    retry: "Try again",
+    updated: "Updated",
+  },
+  page: {
+    errorTitle: "An error occurred",
+  },
+  tags: {
+    allergens: {
+      eggs: "Eggs",
+      milk: "Milk",
+      buckwheat: "Buckwheat",
+      peanut: "Peanut",
+      soybean: "Soybean",
+      wheat: "Wheat",
+      mackerel: "Mackerel",
+      crab: "Crab",
+      shrimp: "Shrimp",
+      pork: "Pork",
+      peach: "Peach",
+      tomato: "Tomato",
+      sulfites: "Sulfites",
+      walnut: "Walnut",
+      chicken: "Chicken",
+      beef: "Beef",
+      squid: "Squid",
+      shellfish: "Shellfish",
+      pine_nut: "Pine nut",
+    },
+    dietary: {
+      vegetarian: "Vegetarian",
+      pork: "Pork",
+      beef: "Beef",
+      spicy: "Spicy",
+      halal_friendly: "Halal-friendly",
+    },
+    inferred: "Guessed from the menu text",
+  },
+  dietaryProfile: {
+    open: "Dietary profile",
+    title: "Your dietary profile",
+    description: "Saved on this device only. Tags come from the cafeteria when available and are otherwise guessed from the menu text, so double-check with the staff if in doubt.",
+    avoid: "Avoid",
+    preferVegetarian: "Prefer vegetarian",
+    hideConflicts: "Hide conflicting dishes",
+    clear: "Clear profile",
+    contains: allergens => `Contains ${allergens}`,
+    preferred: "Matches your preferences",
+    hidden: count => `${count} ${count === 1 ? "dish" : "dishes"} hidden by your profile`,
+    safeCount: (safe, total) => `${safe} of ${total} options are safe for you`,
+  },
+  favorites: {
+    add: "Add to favorites",
+    remove: "Remove from favorites",
+    comingUp: "Coming up",
+    nothingSoon: "None of your favorites are on the menu in the next 4 weeks",
+  },
+  week: {
+    show: "Show the week",
+    hide: "Show one day",
+    previous: "Previous week",
+    next: "Next week",
+    current: "This week",
+  },
+  month: {
+    show: "Show the month",
+    hide: "Hide the month",
+    previous: "Previous month",
+    next: "Next month",
+    current: "This month",
+  },
+  bilingual: {
+    show: "Show Korean names",
+    hide: "Hide Korean names",
+  },
+  search: {
+    open: "Search dishes",
+    placeholder: "Search names, descriptions and sides",
+    windows: {
+      next14: "Next 2 weeks",
+      next30: "Next month",
+      around14: "±2 weeks",
+      past14: "Past 2 weeks",
+    },
+    loading: "Loading menus…",
+    hint: "Find out when a dish is served next",
+    noResults: "No dishes found",
+  },
+  languageSuggestion: {
+    message: "Showing the menu in English, based on your browser.",
+    accept: "Got it",
+    change: "Change language",
+  },
+  languageSelect: {
+    title: "Welcome to Gasan Menu",
+    description: "Please select your preferred language",
+  },
+  storage: {
+    offline: (entries, size) => `${entries} ${entries === 1 ? "menu" : "menus"} offline · ${size}`,
+  },
+  holidays: {
+    newYear: "New Year's Day",
+    seollal: "Seollal",
+    independenceMovement: "Independence Movement Day",
+    laborDay: "Labor Day",
+    childrensDay: "Children's Day",
+    buddhasBirthday: "Buddha's Birthday",
+    memorialDay: "Memorial Day",
+    liberationDay: "Liberation Day",
+    chuseok: "Chuseok",
+    nationalFoundation: "National Foundation Day",
+    hangul: "Hangul Day",
+    christmas: "Christmas Day",
+    substitute: "Substitute holiday",
+    closure: "Cafeteria closed",
+  },
+}
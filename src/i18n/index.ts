@@ -0,0 +1,25 @@
+import { format, parse } from "date-fns"
+import { Language, isLanguage } from "@/types/menu"
+import type { Messages } from "./types"
+import { catalogs } from "./catalogs"
+
+export type { Messages } from "./types"
+
+const FALLBACK_LANGUAGE: Language = "en"
+
+/**
+ * Get the messages for a language, falling back to English for anything unsupported
+ */
+export function getMessages(language: string): Messages {
+  return catalogs[isLanguage(language) ? language : FALLBACK_LANGUAGE]
+}
+
+export type DateStyle = keyof Omit<Messages["dates"], "locale">
+
+/**
+ * Format a yyyyMMdd date in one of the per-language date styles
+ */
+export function formatDate(date: string, language: string, style: DateStyle): string {
+  const { dates } = getMessages(language)
+  return format(parse(date, "yyyyMMdd", new Date()), dates[style], { locale: dates.locale })
+}
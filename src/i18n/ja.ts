@@ -0,0 +1,144 @@
+import { ja as locale } from "date-fns/locale"
+import type { Messages } from "./types"
+
+export const ja: Messages = {
+  language: {
+    name: "日本語",
+    flag: "🇯🇵",
+    description: "日本語でメニューを表示します",
+    ogLocale: "ja_JP",
+  },
+  dates: {
+    locale,
+    tab: "M/d (EEE)",
+    card: "M月d日 (EEEE)",
+    month: "yyyy年M月",
+    weekday: "EEE",
+  },
+  meals: {
+    lunch: "昼食",
+    dinner: "夕食",
+    salad: "サラダ",
+    dessert: "デザート",
+  },
+  menu: {
+    noMenu: "メニューはありません",
+    noMenuToday: "本日のメニューはありません",
+    closed: "食堂はお休みです",
+    loadFailed: "メニューを読み込めませんでした",
+    retry: "再試行",
+    updated: "更新済み",
+  },
+  page: {
+    errorTitle: "エラーが発生しました",
+  },
+  tags: {
+    allergens: {
+      eggs: "卵",
+      milk: "乳",
+      buckwheat: "そば",
+      peanut: "落花生",
+      soybean: "大豆",
+      wheat: "小麦",
+      mackerel: "さば",
+      crab: "かに",
+      shrimp: "えび",
+      pork: "豚肉",
+      peach: "もも",
+      tomato: "トマト",
+      sulfites: "亜硫酸塩",
+      walnut: "くるみ",
+      chicken: "鶏肉",
+      beef: "牛肉",
+      squid: "いか",
+      shellfish: "貝類",
+      pine_nut: "松の実",
+    },
+    dietary: {
+      vegetarian: "ベジタリアン",
+      pork: "豚肉",
+      beef: "牛肉",
+      spicy: "辛い",
+      halal_friendly: "ハラール対応",
+    },
+    inferred: "メニューの文字から推定",
+  },
+  dietaryProfile: {
+    open: "食事プロフィール",
+    title: "あなたの食事プロフィール",
+    description: "この端末にのみ保存されます。食堂の表示がない場合はメニュー名から推測しているため、不安なときはスタッフに確認してください。",
+    avoid: "避けたい食材",
+    preferVegetarian: "ベジタリアン優先",
+    hideConflicts: "合わないメニューを隠す",
+    clear: "プロフィールをクリア",
+    contains: allergens => `${allergens}を含む`,
+    preferred: "好みに合うメニュー",
+    hidden: count => `プロフィールにより${count}品を非表示`,
+    safeCount: (safe, total) => `${total}品中${safe}品が安心して食べられます`,
+  },
+  favorites: {
+    add: "お気に入りに追加",
+    remove: "お気に入りから削除",
+    comingUp: "近日登場",
+    nothingSoon: "今後4週間にお気に入りのメニューはありません",
+  },
+  week: {
+    show: "週表示",
+    hide: "日表示",
+    previous: "前の週",
+    next: "次の週",
+    current: "今週",
+  },
+  month: {
+    show: "月表示",
+    hide: "月表示を閉じる",
+    previous: "前の月",
+    next: "次の月",
+    current: "今月",
+  },
+  bilingual: {
+    show: "韓国語の原文を表示",
+    hide: "韓国語の原文を隠す",
+  },
+  search: {
+    open: "料理を検索",
+    placeholder: "料理名・説明・副菜で検索",
+    windows: {
+      next14: "今後2週間",
+      next30: "今後1か月",
+      around14: "前後2週間",
+      past14: "過去2週間",
+    },
+    loading: "メニューを読み込み中…",
+    hint: "料理が次にいつ出るか調べられます",
+    noResults: "該当する料理はありません",
+  },
+  languageSuggestion: {
+    message: "ブラウザの設定に合わせて日本語で表示しています。",
+    accept: "OK",
+    change: "言語を変更",
+  },
+  languageSelect: {
+    title: "Gasan Menuへようこそ",
+    description: "ご希望の言語を選択してください",
+  },
+  storage: {
+    offline: (entries, size) => `オフラインのメニュー ${entries}件 · ${size}`,
+  },
+  holidays: {
+    newYear: "元日",
+    seollal: "ソルラル（旧正月）",
+    independenceMovement: "三一節",
+    laborDay: "勤労者の日",
+    childrensDay: "こどもの日",
+    buddhasBirthday: "釈迦誕生日",
+    memorialDay: "顕忠日",
+    liberationDay: "光復節",
+    chuseok: "秋夕（チュソク）",
+    nationalFoundation: "開天節",
+    hangul: "ハングルの日",
+    christmas: "クリスマス",
+    substitute: "振替休日",
+    closure: "食堂休業",
+  },
+}
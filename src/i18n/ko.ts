@@ -0,0 +1,144 @@
+import { ko as locale } from "date-fns/locale"
+import type { Messages } from "./types"
+
+export const ko: Messages = {
+  language: {
+    name: "한국어",
+    flag: "🇰🇷",
+    description: "한국어로 메뉴를 확인합니다",
+    ogLocale: "ko_KR",
+  },
+  dates: {
+    locale,
+    tab: "M/d (EEE)",
+    card: "M월 d일 (EEEE)",
+    month: "yyyy년 M월",
+    weekday: "EEE",
+  },
+  meals: {
+    lunch: "점심",
+    dinner: "저녁",
+    salad: "샐러드",
+    dessert: "디저트",
+  },
+  menu: {
+    noMenu: "메뉴가 없습니다",
+    noMenuToday: "오늘은 메뉴가 없습니다",
+    closed: "식당이 쉬는 날입니다",
+    loadFailed: "메뉴를 불러오지 못했습니다",
+    retry: "다시 시도",
+    updated: "업데이트됨",
+  },
+  page: {
+    errorTitle: "오류가 발생했습니다",
+  },
+  tags: {
+    allergens: {
+      eggs: "난류",
+      milk: "우유",
+      buckwheat: "메밀",
+      peanut: "땅콩",
+      soybean: "대두",
+      wheat: "밀",
+      mackerel: "고등어",
+      crab: "게",
+      shrimp: "새우",
+      pork: "돼지고기",
+      peach: "복숭아",
+      tomato: "토마토",
+      sulfites: "아황산류",
+      walnut: "호두",
+      chicken: "닭고기",
+      beef: "쇠고기",
+      squid: "오징어",
+      shellfish: "조개류",
+      pine_nut: "잣",
+    },
+    dietary: {
+      vegetarian: "채식",
+      pork: "돼지고기",
+      beef: "소고기",
+      spicy: "매운맛",
+      halal_friendly: "할랄",
+    },
+    inferred: "메뉴 이름으로 추정",
+  },
+  dietaryProfile: {
+    open: "식단 프로필",
+    title: "나의 식단 프로필",
+    description: "이 기기에만 저장됩니다. 식당에서 제공한 정보가 없으면 메뉴 이름으로 추정하므로, 확실하지 않을 때는 직원에게 확인해 주세요.",
+    avoid: "피할 재료",
+    preferVegetarian: "채식 선호",
+    hideConflicts: "맞지 않는 메뉴 숨기기",
+    clear: "프로필 지우기",
+    contains: allergens => `${allergens} 포함`,
+    preferred: "선호에 맞는 메뉴",
+    hidden: count => `프로필에 맞지 않는 메뉴 ${count}개 숨김`,
+    safeCount: (safe, total) => `${total}개 중 ${safe}개 메뉴를 안심하고 먹을 수 있어요`,
+  },
+  favorites: {
+    add: "즐겨찾기에 추가",
+    remove: "즐겨찾기에서 삭제",
+    comingUp: "곧 나와요",
+    nothingSoon: "4주 안에 나오는 즐겨찾기 메뉴가 없어요",
+  },
+  week: {
+    show: "주간 보기",
+    hide: "하루씩 보기",
+    previous: "지난주",
+    next: "다음 주",
+    current: "이번 주",
+  },
+  month: {
+    show: "월간 보기",
+    hide: "월간 보기 닫기",
+    previous: "지난달",
+    next: "다음 달",
+    current: "이번 달",
+  },
+  bilingual: {
+    show: "원문 함께 보기",
+    hide: "원문 숨기기",
+  },
+  search: {
+    open: "메뉴 검색",
+    placeholder: "메뉴 이름, 설명, 반찬으로 검색",
+    windows: {
+      next14: "앞으로 2주",
+      next30: "앞으로 한 달",
+      around14: "앞뒤 2주",
+      past14: "지난 2주",
+    },
+    loading: "메뉴를 불러오는 중…",
+    hint: "언제 나오는지 궁금한 메뉴를 검색해 보세요",
+    noResults: "검색 결과가 없습니다",
+  },
+  languageSuggestion: {
+    message: "브라우저 설정에 따라 한국어로 표시하고 있어요.",
+    accept: "좋아요",
+    change: "다른 언어",
+  },
+  languageSelect: {
+    title: "가산 메뉴에 오신 것을 환영해요",
+    description: "사용할 언어를 선택해 주세요",
+  },
+  storage: {
+    offline: (entries, size) => `오프라인 메뉴 ${entries}개 · ${size}`,
+  },
+  holidays: {
+    newYear: "신정",
+    seollal: "설날",
+    independenceMovement: "삼일절",
+    laborDay: "근로자의 날",
+    childrensDay: "어린이날",
+    buddhasBirthday: "부처님오신날",
+    memorialDay: "현충일",
+    liberationDay: "광복절",
+    chuseok: "추석",
+    nationalFoundation: "개천절",
+    hangul: "한글날",
+    christmas: "성탄절",
+    substitute: "대체공휴일",
+    closure: "식당 휴무",
+  },
+}
@@ -0,0 +1,144 @@
+import { sv as locale } from "date-fns/locale"
+import type { Messages } from "./types"
+
+export const sv: Messages = {
+  language: {
+    name: "Svenska",
+    flag: "🇸🇪",
+    description: "Visa menyn på svenska",
+    ogLocale: "sv_SE",
+  },
+  dates: {
+    locale,
+    tab: "d/M EEE",
+    card: "d MMMM, EEEE",
+    month: "LLLL yyyy",
+    weekday: "EEE",
+  },
+  meals: {
+    lunch: "Lunch",
+    dinner: "Middag",
+    salad: "Sallad",
+    dessert: "Efterrätt",
+  },
+  menu: {
+    noMenu: "Ingen meny tillgänglig",
+    noMenuToday: "Ingen meny tillgänglig idag",
+    closed: "Restaurangen är stängd",
+    loadFailed: "Kunde inte ladda menyn",
+    retry: "Försök igen",
+    updated: "Uppdaterad",
+  },
+  page: {
+    errorTitle: "Ett fel uppstod",
+  },
+  tags: {
+    allergens: {
+      eggs: "Ägg",
+      milk: "Mjölk",
+      buckwheat: "Bovete",
+      peanut: "Jordnöt",
+      soybean: "Soja",
+      wheat: "Vete",
+      mackerel: "Makrill",
+      crab: "Krabba",
+      shrimp: "Räkor",
+      pork: "Fläsk",
+      peach: "Persika",
+      tomato: "Tomat",
+      sulfites: "Sulfiter",
+      walnut: "Valnöt",
+      chicken: "Kyckling",
+      beef: "Nötkött",
+      squid: "Bläckfisk",
+      shellfish: "Skaldjur",
+      pine_nut: "Pinjenöt",
+    },
+    dietary: {
+      vegetarian: "Vegetarisk",
+      pork: "Fläsk",
+      beef: "Nötkött",
+      spicy: "Stark",
+      halal_friendly: "Halalvänlig",
+    },
+    inferred: "Gissat utifrån menytexten",
+  },
+  dietaryProfile: {
+    open: "Kostprofil",
+    title: "Din kostprofil",
+    description: "Sparas bara på den här enheten. Märkningen kommer från restaurangen när den finns och gissas annars utifrån menytexten, så fråga personalen om du är osäker.",
+    avoid: "Undvik",
+    preferVegetarian: "Föredrar vegetariskt",
+    hideConflicts: "Dölj rätter som inte passar",
+    clear: "Rensa profilen",
+    contains: allergens => `Innehåller ${allergens}`,
+    preferred: "Passar dina önskemål",
+    hidden: count => `${count} ${count === 1 ? "rätt" : "rätter"} dolda av din profil`,
+    safeCount: (safe, total) => `${safe} av ${total} alternativ passar dig`,
+  },
+  favorites: {
+    add: "Lägg till i favoriter",
+    remove: "Ta bort från favoriter",
+    comingUp: "Snart på menyn",
+    nothingSoon: "Inga av dina favoriter finns på menyn de kommande 4 veckorna",
+  },
+  week: {
+    show: "Visa veckan",
+    hide: "Visa en dag",
+    previous: "Föregående vecka",
+    next: "Nästa vecka",
+    current: "Denna vecka",
+  },
+  month: {
+    show: "Visa månaden",
+    hide: "Dölj månaden",
+    previous: "Föregående månad",
+    next: "Nästa månad",
+    current: "Denna månad",
+  },
+  bilingual: {
+    show: "Visa koreanska namn",
+    hide: "Dölj koreanska namn",
+  },
+  search: {
+    open: "Sök rätter",
+    placeholder: "Sök namn, beskrivningar och tillbehör",
+    windows: {
+      next14: "Kommande 2 veckor",
+      next30: "Kommande månad",
+      around14: "±2 veckor",
+      past14: "Senaste 2 veckorna",
+    },
+    loading: "Laddar menyer…",
+    hint: "Ta reda på när en rätt serveras nästa gång",
+    noResults: "Inga rätter hittades",
+  },
+  languageSuggestion: {
+    message: "Menyn visas på svenska utifrån din webbläsare.",
+    accept: "Okej",
+    change: "Byt språk",
+  },
+  languageSelect: {
+    title: "Välkommen till Gasan Menu",
+    description: "Välj ditt språk",
+  },
+  storage: {
+    offline: (entries, size) => `${entries} ${entries === 1 ? "meny" : "menyer"} offline · ${size}`,
+  },
+  holidays: {
+    newYear: "Nyårsdagen",
+    seollal: "Koreanskt nyår",
+    independenceMovement: "Självständighetsdagen",
+    laborDay: "Arbetarnas dag",
+    childrensDay: "Barnens dag",
+    buddhasBirthday: "Buddhas födelsedag",
+    memorialDay: "Minnesdagen",
+    liberationDay: "Befrielsedagen",
+    chuseok: "Chuseok",
+    nationalFoundation: "Grundardagen",
+    hangul: "Hanguldagen",
+    christmas: "Juldagen",
+    substitute: "Ersättningsledighet",
+    closure: "Restaurangen stängd",
+  },
+}
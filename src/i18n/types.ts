@@ -0,0 +1,101 @@
+import type { Locale } from "date-fns"
+import type { Allergen, DietaryFlag } from "@/types/menu"
+import type { HolidayId } from "@/lib/holidays"
+import type { SearchWindowId } from "@/lib/menuSearch"
+
+// Every language file implements this shape in full, so a missing key is a type error
+export interface Messages {
+  language: {
+    name: string // In the language itself, e.g. "Svenska"
+    flag: string
+    description: string // Shown on the language picker
+    ogLocale: string // Open Graph locale, e.g. "sv_SE"
+  }
+  dates: {
+    locale: Locale
+    tab: string // date-fns pattern for the date tabs
+    card: string // date-fns pattern for the menu card title
+    month: string // date-fns pattern for the month calendar title
+    weekday: string // date-fns pattern for the month calendar column headings
+  }
+  meals: {
+    lunch: string
+    dinner: string
+    salad: string
+    dessert: string
+  }
+  menu: {
+    noMenu: string
+    noMenuToday: string
+    closed: string
+    loadFailed: string
+    retry: string
+    updated: string
+  }
+  page: {
+    errorTitle: string
+  }
+  tags: {
+    allergens: Record<Allergen, string>
+    dietary: Record<DietaryFlag, string>
+    inferred: string // Added to tags guessed from the menu text
+  }
+  dietaryProfile: {
+    open: string // Header button label
+    title: string
+    description: string
+    avoid: string // Heading over the allergen choices
+    preferVegetarian: string
+    hideConflicts: string
+    clear: string
+    contains: (allergens: string) => string // Warning on a conflicting item or side dish
+    preferred: string // Marks items that match a preference
+    hidden: (count: number) => string // Stands in for hidden items
+    safeCount: (safe: number, total: number) => string // Per-day summary on the date tabs
+  }
+  favorites: {
+    add: string // Star button labels
+    remove: string
+    comingUp: string // Heading of the strip listing upcoming favorites
+    nothingSoon: string // Shown in the strip when no favorite is on the menu soon
+  }
+  week: {
+    show: string // Header toggle to the week view
+    hide: string // Header toggle back to the date tabs
+    previous: string
+    next: string
+    current: string // Jumps back to this week
+  }
+  month: {
+    show: string // Header toggle to the month calendar
+    hide: string
+    previous: string
+    next: string
+    current: string // Jumps back to this month
+  }
+  bilingual: {
+    show: string // Toggle label to turn the Korean originals on
+    hide: string
+  }
+  search: {
+    open: string // Header button label
+    placeholder: string
+    windows: Record<SearchWindowId, string>
+    loading: string
+    hint: string // Shown before anything is typed
+    noResults: string
+  }
+  languageSuggestion: {
+    message: string
+    accept: string
+    change: string
+  }
+  languageSelect: {
+    title: string // Heading of the language picker
+    description: string
+  }
+  storage: {
+    offline: (entries: number, size: string) => string
+  }
+  holidays: Record<HolidayId, string>
+}
@@ -0,0 +1,144 @@
+import { vi as locale } from "date-fns/locale"
+import type { Messages } from "./types"
+
+export const vi: Messages = {
+  language: {
+    name: "Tiếng Việt",
+    flag: "🇻🇳",
+    description: "Xem thực đơn bằng tiếng Việt",
+    ogLocale: "vi_VN",
+  },
+  dates: {
+    locale,
+    tab: "d/M EEE",
+    card: "EEEE, d MMMM",
+    month: "'Tháng' M, yyyy",
+    weekday: "EEE",
+  },
+  meals: {
+    lunch: "Bữa trưa",
+    dinner: "Bữa tối",
+    salad: "Salad",
+    dessert: "Tráng miệng",
+  },
+  menu: {
+    noMenu: "Không có thực đơn",
+    noMenuToday: "Hôm nay không có thực đơn",
+    closed: "Nhà ăn đóng cửa",
+    loadFailed: "Không thể tải thực đơn",
+    retry: "Thử lại",
+    updated: "Đã cập nhật",
+  },
+  page: {
+    errorTitle: "Đã xảy ra lỗi",
+  },
+  tags: {
+    allergens: {
+      eggs: "Trứng",
+      milk: "Sữa",
+      buckwheat: "Kiều mạch",
+      peanut: "Đậu phộng",
+      soybean: "Đậu nành",
+      wheat: "Lúa mì",
+      mackerel: "Cá thu",
+      crab: "Cua",
+      shrimp: "Tôm",
+      pork: "Thịt heo",
+      peach: "Đào",
+      tomato: "Cà chua",
+      sulfites: "Sulfit",
+      walnut: "Óc chó",
+      chicken: "Thịt gà",
+      beef: "Thịt bò",
+      squid: "Mực",
+      shellfish: "Động vật có vỏ",
+      pine_nut: "Hạt thông",
+    },
+    dietary: {
+      vegetarian: "Chay",
+      pork: "Thịt heo",
+      beef: "Thịt bò",
+      spicy: "Cay",
+      halal_friendly: "Thân thiện halal",
+    },
+    inferred: "Đoán từ tên món",
+  },
+  dietaryProfile: {
+    open: "Hồ sơ ăn uống",
+    title: "Hồ sơ ăn uống của bạn",
+    description: "Chỉ lưu trên thiết bị này. Nhãn lấy từ nhà ăn khi có, nếu không sẽ được đoán từ tên món, vì vậy hãy hỏi nhân viên khi không chắc chắn.",
+    avoid: "Tránh",
+    preferVegetarian: "Ưu tiên món chay",
+    hideConflicts: "Ẩn món không phù hợp",
+    clear: "Xóa hồ sơ",
+    contains: allergens => `Có ${allergens}`,
+    preferred: "Phù hợp với sở thích của bạn",
+    hidden: count => `Đã ẩn ${count} món theo hồ sơ của bạn`,
+    safeCount: (safe, total) => `${safe}/${total} món phù hợp với bạn`,
+  },
+  favorites: {
+    add: "Thêm vào yêu thích",
+    remove: "Bỏ khỏi yêu thích",
+    comingUp: "Sắp có",
+    nothingSoon: "Không có món yêu thích nào trong 4 tuần tới",
+  },
+  week: {
+    show: "Xem cả tuần",
+    hide: "Xem từng ngày",
+    previous: "Tuần trước",
+    next: "Tuần sau",
+    current: "Tuần này",
+  },
+  month: {
+    show: "Xem cả tháng",
+    hide: "Ẩn lịch tháng",
+    previous: "Tháng trước",
+    next: "Tháng sau",
+    current: "Tháng này",
+  },
+  bilingual: {
+    show: "Hiện tên tiếng Hàn",
+    hide: "Ẩn tên tiếng Hàn",
+  },
+  search: {
+    open: "Tìm món ăn",
+    placeholder: "Tìm theo tên, mô tả và món phụ",
+    windows: {
+      next14: "2 tuần tới",
+      next30: "Tháng tới",
+      around14: "±2 tuần",
+      past14: "2 tuần qua",
+    },
+    loading: "Đang tải thực đơn…",
+    hint: "Xem khi nào món ăn được phục vụ tiếp",
+    noResults: "Không tìm thấy món nào",
+  },
+  languageSuggestion: {
+    message: "Thực đơn đang hiển thị bằng tiếng Việt theo cài đặt trình duyệt.",
+    accept: "Đồng ý",
+    change: "Đổi ngôn ngữ",
+  },
+  languageSelect: {
+    title: "Chào mừng đến với Gasan Menu",
+    description: "Vui lòng chọn ngôn ngữ bạn muốn dùng",
+  },
+  storage: {
+    offline: (entries, size) => `${entries} thực đơn ngoại tuyến · ${size}`,
+  },
+  holidays: {
+    newYear: "Tết Dương lịch",
+    seollal: "Tết Seollal",
+    independenceMovement: "Ngày Phong trào Độc lập",
+    laborDay: "Ngày Quốc tế Lao động",
+    childrensDay: "Ngày Thiếu nhi",
+    buddhasBirthday: "Lễ Phật đản",
+    memorialDay: "Ngày Tưởng niệm",
+    liberationDay: "Ngày Giải phóng",
+    chuseok: "Tết Chuseok",
+    nationalFoundation: "Ngày Lập quốc",
+    hangul: "Ngày Hangul",
+    christmas: "Lễ Giáng sinh",
+    substitute: "Ngày nghỉ bù",
+    closure: "Nhà ăn nghỉ",
+  },
+}
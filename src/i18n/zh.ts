@@ -0,0 +1,144 @@
+import { zhCN as locale } from "date-fns/locale"
+import type { Messages } from "./types"
+
+export const zh: Messages = {
+  language: {
+    name: "中文",
+    flag: "🇨🇳",
+    description: "用中文查看菜单",
+    ogLocale: "zh_CN",
+  },
+  dates: {
+    locale,
+    tab: "M/d EEE",
+    card: "M月d日 EEEE",
+    month: "yyyy年M月",
+    weekday: "EEE",
+  },
+  meals: {
+    lunch: "午餐",
+    dinner: "晚餐",
+    salad: "沙拉",
+    dessert: "甜点",
+  },
+  menu: {
+    noMenu: "没有菜单",
+    noMenuToday: "今天没有菜单",
+    closed: "食堂今天休息",
+    loadFailed: "无法加载菜单",
+    retry: "重试",
+    updated: "已更新",
+  },
+  page: {
+    errorTitle: "发生错误",
+  },
+  tags: {
+    allergens: {
+      eggs: "鸡蛋",
+      milk: "牛奶",
+      buckwheat: "荞麦",
+      peanut: "花生",
+      soybean: "大豆",
+      wheat: "小麦",
+      mackerel: "鲭鱼",
+      crab: "蟹",
+      shrimp: "虾",
+      pork: "猪肉",
+      peach: "桃子",
+      tomato: "番茄",
+      sulfites: "亚硫酸盐",
+      walnut: "核桃",
+      chicken: "鸡肉",
+      beef: "牛肉",
+      squid: "鱿鱼",
+      shellfish: "贝类",
+      pine_nut: "松子",
+    },
+    dietary: {
+      vegetarian: "素食",
+      pork: "猪肉",
+      beef: "牛肉",
+      spicy: "辣",
+      halal_friendly: "清真友好",
+    },
+    inferred: "根据菜单文字推测",
+  },
+  dietaryProfile: {
+    open: "饮食档案",
+    title: "我的饮食档案",
+    description: "仅保存在此设备上。食堂未提供标签时会根据菜单文字推测，如有疑问请向工作人员确认。",
+    avoid: "忌口",
+    preferVegetarian: "偏好素食",
+    hideConflicts: "隐藏不适合的菜品",
+    clear: "清除档案",
+    contains: allergens => `含有${allergens}`,
+    preferred: "符合你的偏好",
+    hidden: count => `已根据档案隐藏 ${count} 道菜`,
+    safeCount: (safe, total) => `${total} 道菜中有 ${safe} 道适合你`,
+  },
+  favorites: {
+    add: "加入收藏",
+    remove: "取消收藏",
+    comingUp: "即将供应",
+    nothingSoon: "未来四周没有收藏的菜品",
+  },
+  week: {
+    show: "按周查看",
+    hide: "按天查看",
+    previous: "上一周",
+    next: "下一周",
+    current: "本周",
+  },
+  month: {
+    show: "按月查看",
+    hide: "关闭月视图",
+    previous: "上个月",
+    next: "下个月",
+    current: "本月",
+  },
+  bilingual: {
+    show: "显示韩文原名",
+    hide: "隐藏韩文原名",
+  },
+  search: {
+    open: "搜索菜品",
+    placeholder: "搜索菜名、描述和配菜",
+    windows: {
+      next14: "未来两周",
+      next30: "未来一个月",
+      around14: "前后两周",
+      past14: "过去两周",
+    },
+    loading: "正在加载菜单…",
+    hint: "查一查某道菜什么时候供应",
+    noResults: "没有找到菜品",
+  },
+  languageSuggestion: {
+    message: "已根据浏览器设置以中文显示菜单。",
+    accept: "好的",
+    change: "切换语言",
+  },
+  languageSelect: {
+    title: "欢迎使用 Gasan Menu",
+    description: "请选择您的首选语言",
+  },
+  storage: {
+    offline: (entries, size) => `已离线保存 ${entries} 份菜单 · ${size}`,
+  },
+  holidays: {
+    newYear: "元旦",
+    seollal: "春节",
+    independenceMovement: "三一节",
+    laborDay: "劳动节",
+    childrensDay: "儿童节",
+    buddhasBirthday: "佛诞日",
+    memorialDay: "显忠日",
+    liberationDay: "光复节",
+    chuseok: "中秋节",
+    nationalFoundation: "开天节",
+    hangul: "韩文日",
+    christmas: "圣诞节",
+    substitute: "补休日",
+    closure: "食堂休息",
+  },
+}
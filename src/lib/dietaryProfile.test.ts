@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { DayMenu, MenuItem } from "@/types/menu"
+import { DietaryProfile, EMPTY_DIETARY_PROFILE, checkItem, countSafeItems, parseDietaryProfile } from "./dietaryProfile"
+
+function makeItem(overrides: Partial<MenuItem>): MenuItem {
+  return { id: 1, name: "", meal_type: "lunch", corner_name: "", description: "", sub_menus: [], ...overrides }
+}
+
+function makeProfile(overrides: Partial<DietaryProfile>): DietaryProfile {
+  return { ...EMPTY_DIETARY_PROFILE, ...overrides }
+}
+
+describe("checkItem", () => {
+  it("flags an avoided allergen in the dish", () => {
+    const verdict = checkItem(makeItem({ name: "Pork cutlet" }), makeProfile({ avoid: ["pork"] }))
+    expect(verdict.conflicts).toEqual(["pork"])
+    expect(verdict.safe).toBe(false)
+  })
+
+  it("flags a side dish rather than the whole item", () => {
+    const verdict = checkItem(makeItem({ name: "Bibimbap", sub_menus: ["Rice", "Shrimp tempura"] }), makeProfile({ avoid: ["shrimp"] }))
+    expect(verdict.conflicts).toEqual([])
+    expect(verdict.riskySides).toEqual(new Map([[1, ["shrimp"]]]))
+    expect(verdict.safe).toBe(false)
+  })
+
+  it("trusts the upstream allergens over the text", () => {
+    const verdict = checkItem(makeItem({ name: "Vegetable curry", allergens: ["milk"] }), makeProfile({ avoid: ["milk"] }))
+    expect(verdict.conflicts).toEqual(["milk"])
+  })
+
+  it("treats pork and beef dietary flags as allergens", () => {
+    const verdict = checkItem(makeItem({ name: "Special", allergens: [], dietary: ["beef"] }), makeProfile({ avoid: ["beef"] }))
+    expect(verdict.conflicts).toEqual(["beef"])
+  })
+
+  it("marks vegetarian items as preferred only when asked", () => {
+    const item = makeItem({ name: "Vegan bowl" })
+    expect(checkItem(item, makeProfile({ preferVegetarian: true })).preferred).toBe(true)
+    expect(checkItem(item, EMPTY_DIETARY_PROFILE).preferred).toBe(false)
+  })
+})
+
+describe("countSafeItems", () => {
+  it("counts every item of the day", () => {
+    const menu: DayMenu = {
+      date: "20261020",
+      language: "en",
+      lunch: [makeItem({ name: "Pork cutlet" }), makeItem({ name: "Bibimbap" })],
+      dinner: [],
+      dessert: makeItem({ name: "Peach" }),
+      salad: null,
+    }
+    expect(countSafeItems(menu, makeProfile({ avoid: ["pork", "peach"] }))).toEqual({ safe: 1, total: 3 })
+  })
+})
+
+describe("parseDietaryProfile", () => {
+  it("drops what it does not understand", () => {
+    expect(parseDietaryProfile('{"avoid":["eggs","gluten"],"preferVegetarian":"yes"}')).toEqual(
+      makeProfile({ avoid: ["eggs"] })
+    )
+    expect(parseDietaryProfile("not json")).toBe(EMPTY_DIETARY_PROFILE)
+    expect(parseDietaryProfile(null)).toBe(EMPTY_DIETARY_PROFILE)
+  })
+})
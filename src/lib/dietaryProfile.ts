@@ -0,0 +1,92 @@
+import { ALLERGENS, Allergen, DayMenu, MenuItem } from "@/types/menu"
+import { findAllergens, getItemTags } from "@/lib/menuTags"
+
+// Kept on the device only, like the other display preferences
+export const DIETARY_PROFILE_STORAGE_KEY = "gasan-menu-dietary-profile"
+
+export interface DietaryProfile {
+  avoid: Allergen[] // Allergies and anything else they don't eat, e.g. pork
+  preferVegetarian: boolean
+  hideConflicts: boolean // Hide conflicting items instead of dimming them
+}
+
+export const EMPTY_DIETARY_PROFILE: DietaryProfile = {
+  avoid: [],
+  preferVegetarian: false,
+  hideConflicts: false,
+}
+
+export interface ItemVerdict {
+  conflicts: Allergen[] // Avoided allergens in the dish itself
+  riskySides: Map<number, Allergen[]> // Avoided allergens by sub_menus index
+  safe: boolean // Nothing to avoid in the dish or its sides
+  preferred: boolean // Matches a preference, e.g. vegetarian
+}
+
+function isAllergen(value: unknown): value is Allergen {
+  return typeof value === "string" && (ALLERGENS as readonly string[]).includes(value)
+}
+
+export function isDietaryProfileActive(profile: DietaryProfile): boolean {
+  return profile.avoid.length > 0 || profile.preferVegetarian
+}
+
+/**
+ * Read a stored profile, dropping anything this version does not understand
+ */
+export function parseDietaryProfile(value: string | null): DietaryProfile {
+  if (!value) return EMPTY_DIETARY_PROFILE
+  try {
+    const data = JSON.parse(value)
+    return {
+      avoid: Array.isArray(data?.avoid) ? data.avoid.filter(isAllergen) : [],
+      preferVegetarian: data?.preferVegetarian === true,
+      hideConflicts: data?.hideConflicts === true,
+    }
+  } catch {
+    return EMPTY_DIETARY_PROFILE
+  }
+}
+
+/**
+ * Check an item against a profile. An avoided allergen that only shows up in a
+ * side dish flags that side rather than the whole item, since sides can be skipped.
+ */
+export function checkItem(item: MenuItem, profile: DietaryProfile): ItemVerdict {
+  const { allergens, dietary } = getItemTags(item)
+  const avoided = (allergen: Allergen) => profile.avoid.includes(allergen)
+
+  const riskySides = new Map<number, Allergen[]>()
+  item.sub_menus.forEach((side, index) => {
+    const found = findAllergens(side).filter(avoided)
+    if (found.length > 0) riskySides.set(index, found)
+  })
+
+  const inSides = new Set(Array.from(riskySides.values()).flat())
+  const inDish = findAllergens([item.name, item.description].join("\n"))
+  // The dietary flags say the same for pork and beef when the upstream sends only those
+  const contained = new Set<Allergen>([...allergens, ...dietary.flatMap(flag => (isAllergen(flag) ? [flag] : []))])
+  const conflicts = Array.from(contained).filter(
+    allergen => avoided(allergen) && (!inSides.has(allergen) || inDish.includes(allergen))
+  )
+
+  return {
+    conflicts,
+    riskySides,
+    safe: conflicts.length === 0 && riskySides.size === 0,
+    preferred: profile.preferVegetarian && dietary.includes("vegetarian"),
+  }
+}
+
+/**
+ * How many of a day's items are safe to eat with a profile
+ */
+export function countSafeItems(menu: DayMenu, profile: DietaryProfile): { safe: number; total: number } {
+  const items = [...menu.lunch, ...menu.dinner, menu.salad, menu.dessert].filter(
+    (item): item is MenuItem => item !== null
+  )
+  return {
+    safe: items.filter(item => checkItem(item, profile).safe).length,
+    total: items.length,
+  }
+}
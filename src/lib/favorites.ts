@@ -0,0 +1,113 @@
+import { DayMenu, Language, MenuItem } from "@/types/menu"
+import { normalizeMenuText } from "@/lib/menuSearch"
+import { ORIGINAL_LANGUAGE } from "@/lib/language"
+
+export const FAVORITES_STORAGE_KEY = "gasan-menu-favorites"
+
+// How far ahead the "Coming up" strip looks, and how many days it lists
+export const COMING_UP_DAYS = 28
+export const COMING_UP_LIMIT = 5
+
+// Item ids are numbered per date but shared by every translation of that date, so
+// the id finds the Korean original of a starred item. The normalized Korean name
+// then recognizes the dish on other dates, whatever language the menu is read in.
+export interface FavoriteDish {
+  id: number // Item the dish was starred from
+  date: string // Date of that item, which the id belongs to
+  names: Partial<Record<Language, string>> // Normalized names, by language
+}
+
+export interface UpcomingFavorites {
+  date: string
+  items: MenuItem[]
+}
+
+// Spacing varies between days ("소 불고기", "소불고기"), so it is dropped as well
+export function normalizeDishName(name: string): string {
+  return normalizeMenuText(name).replace(/\s+/g, "")
+}
+
+function isFavoriteDish(value: unknown): value is FavoriteDish {
+  const dish = value as FavoriteDish
+  return (
+    typeof dish?.id === "number" &&
+    typeof dish.date === "string" &&
+    typeof dish.names === "object" &&
+    dish.names !== null
+  )
+}
+
+/**
+ * Read stored favorites, skipping entries this version does not understand
+ */
+export function parseFavorites(value: string | null): FavoriteDish[] {
+  if (!value) return []
+  try {
+    const data = JSON.parse(value)
+    return Array.isArray(data) ? data.filter(isFavoriteDish) : []
+  } catch {
+    return []
+  }
+}
+
+export function createFavorite(item: MenuItem, date: string, language: Language): FavoriteDish {
+  return { id: item.id, date, names: { [language]: normalizeDishName(item.name) } }
+}
+
+function getItems(menu: DayMenu): MenuItem[] {
+  return [...menu.lunch, ...menu.dinner, menu.salad, menu.dessert].filter(
+    (item): item is MenuItem => item !== null
+  )
+}
+
+/**
+ * Add the Korean name of a starred item, found by id in the Korean menu of its date
+ */
+export function withOriginalName(favorite: FavoriteDish, original: DayMenu): FavoriteDish {
+  const originalItem = getItems(original).find(item => item.id === favorite.id)
+  if (!originalItem?.name) return favorite
+  return { ...favorite, names: { ...favorite.names, [ORIGINAL_LANGUAGE]: normalizeDishName(originalItem.name) } }
+}
+
+/**
+ * Favorites an item matches: by its name in the menu's language, or by its Korean
+ * original (looked up by id in `original`) when one is at hand
+ */
+export function matchFavorites(
+  item: MenuItem,
+  menu: DayMenu,
+  favorites: FavoriteDish[],
+  original?: DayMenu
+): FavoriteDish[] {
+  if (favorites.length === 0 || !item.name) return []
+
+  const name = normalizeDishName(item.name)
+  const originalItem = menu.language === ORIGINAL_LANGUAGE ? item : original && getItems(original).find(o => o.id === item.id)
+  const originalName = originalItem?.name ? normalizeDishName(originalItem.name) : null
+
+  return favorites.filter(favorite =>
+    (favorite.date === menu.date && favorite.id === item.id) ||
+    favorite.names[menu.language] === name ||
+    (originalName !== null && favorite.names[ORIGINAL_LANGUAGE] === originalName)
+  )
+}
+
+/**
+ * Items of a day that match a favorite
+ */
+export function findFavoriteItems(menu: DayMenu, favorites: FavoriteDish[], original?: DayMenu): MenuItem[] {
+  return getItems(menu).filter(item => matchFavorites(item, menu, favorites, original).length > 0)
+}
+
+/**
+ * Days with a favorite on the menu, in the order given
+ */
+export function findUpcomingFavorites(
+  menus: DayMenu[],
+  favorites: FavoriteDish[],
+  originals: Record<string, DayMenu> = {}
+): UpcomingFavorites[] {
+  return menus
+    .map(menu => ({ date: menu.date, items: findFavoriteItems(menu, favorites, originals[menu.date]) }))
+    .filter(({ items }) => items.length > 0)
+}
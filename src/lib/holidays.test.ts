@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+import { getHoliday, getHolidayName } from "./holidays"
+
+describe("getHoliday", () => {
+  it("finds fixed-date holidays", () => {
+    expect(getHoliday("20260101")?.id).toBe("newYear")
+    expect(getHoliday("20261009")?.id).toBe("hangul")
+    expect(getHoliday("20261225")?.id).toBe("christmas")
+  })
+
+  it("covers the three days of Seollal and Chuseok", () => {
+    expect(["20260216", "20260217", "20260218"].map(date => getHoliday(date)?.id)).toEqual(["seollal", "seollal", "seollal"])
+    expect(["20250905", "20251005", "20251006", "20251007"].map(date => getHoliday(date)?.id)).toEqual([
+      undefined,
+      "chuseok",
+      "chuseok",
+      "chuseok",
+    ])
+  })
+
+  it("returns null on ordinary days", () => {
+    expect(getHoliday("20261020")).toBeNull()
+  })
+
+  it("substitutes a holiday that falls on a weekend", () => {
+    // 1 March 2026 is a Sunday
+    expect(getHoliday("20260302")?.id).toBe("substitute")
+    // Christmas 2027 is a Saturday
+    expect(getHoliday("20271227")?.id).toBe("substitute")
+  })
+
+  it("substitutes a holiday that overlaps another one", () => {
+    // Children's Day and Buddha's Birthday are both on 5 May 2025
+    expect(getHoliday("20250505")?.id).toBe("buddhasBirthday")
+    expect(getHoliday("20250506")?.id).toBe("substitute")
+  })
+
+  it("substitutes Chuseok only for an overlap with a Sunday, after the other holidays", () => {
+    // Chuseok 2025 starts on Sunday 5 October; 8 October is the next free weekday
+    expect(getHoliday("20251008")?.id).toBe("substitute")
+    expect(getHoliday("20251009")?.id).toBe("hangul")
+  })
+
+  it("does not substitute holidays without the rule", () => {
+    // Labor Day 2027 is a Saturday, Memorial Day 2027 a Sunday
+    expect(getHoliday("20270503")).toBeNull()
+    expect(getHoliday("20270607")).toBeNull()
+  })
+})
+
+describe("getHolidayName", () => {
+  it("names a holiday in the requested language", () => {
+    expect(getHolidayName("20261225", "en")).toBe("Christmas Day")
+    expect(getHolidayName("20260302", "en")).toBe("Substitute holiday")
+  })
+
+  it("returns null on ordinary days", () => {
+    expect(getHolidayName("20261020", "ko")).toBeNull()
+  })
+})
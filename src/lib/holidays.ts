@@ -0,0 +1,145 @@
+import { addDays, format, isSunday, isWeekend, parse } from "date-fns"
+import { Language } from "@/types/menu"
+import { getMessages } from "@/i18n"
+
+export type HolidayId =
+  | "newYear"
+  | "seollal"
+  | "independenceMovement"
+  | "laborDay"
+  | "childrensDay"
+  | "buddhasBirthday"
+  | "memorialDay"
+  | "liberationDay"
+  | "chuseok"
+  | "nationalFoundation"
+  | "hangul"
+  | "christmas"
+  | "substitute"
+  | "closure"
+
+export interface Holiday {
+  id: HolidayId
+}
+
+// How a holiday that falls on a day off is made up for
+//   none:    never substituted
+//   sunday:  Seollal/Chuseok, only when a day overlaps a Sunday or another holiday
+//   weekend: when it falls on Saturday/Sunday or overlaps another holiday
+type SubstituteRule = "none" | "sunday" | "weekend"
+
+const FIXED_HOLIDAYS: Array<{ monthDay: string; id: HolidayId; rule: SubstituteRule }> = [
+  { monthDay: "0101", id: "newYear", rule: "none" },
+  { monthDay: "0301", id: "independenceMovement", rule: "weekend" },
+  { monthDay: "0501", id: "laborDay", rule: "none" },
+  { monthDay: "0505", id: "childrensDay", rule: "weekend" },
+  { monthDay: "0606", id: "memorialDay", rule: "none" },
+  { monthDay: "0815", id: "liberationDay", rule: "weekend" },
+  { monthDay: "1003", id: "nationalFoundation", rule: "weekend" },
+  { monthDay: "1009", id: "hangul", rule: "weekend" },
+  { monthDay: "1225", id: "christmas", rule: "weekend" },
+]
+
+// Solar dates (yyyyMMdd) of lunar 1/1, 4/8 and 8/15. Extend as new years are announced.
+const LUNAR_HOLIDAYS: Record<number, { seollal: string; buddhasBirthday: string; chuseok: string }> = {
+  2024: { seollal: "20240210", buddhasBirthday: "20240515", chuseok: "20240917" },
+  2025: { seollal: "20250129", buddhasBirthday: "20250505", chuseok: "20251006" },
+  2026: { seollal: "20260217", buddhasBirthday: "20260524", chuseok: "20260925" },
+  2027: { seollal: "20270207", buddhasBirthday: "20270513", chuseok: "20270915" },
+  2028: { seollal: "20280127", buddhasBirthday: "20280502", chuseok: "20281003" },
+  2029: { seollal: "20290213", buddhasBirthday: "20290520", chuseok: "20290922" },
+  2030: { seollal: "20300203", buddhasBirthday: "20300509", chuseok: "20300912" },
+}
+
+// Extra cafeteria closures as comma-separated yyyyMMdd dates, e.g. "20261231,20270102"
+const CAFETERIA_CLOSURES = (process.env.NEXT_PUBLIC_CAFETERIA_CLOSURES || "")
+  .split(",")
+  .map(date => date.trim())
+  .filter(date => /^\d{8}$/.test(date))
+
+function toDate(date: string): Date {
+  return parse(date, "yyyyMMdd", new Date())
+}
+
+function toKey(date: Date): string {
+  return format(date, "yyyyMMdd")
+}
+
+function buildYear(year: number): Map<string, Holiday> {
+  const holidays = new Map<string, Holiday>()
+  const substitutesAfter: Date[] = []
+
+  // Add a run of consecutive days as one holiday, queueing a substitute when the rule calls for one
+  const addHoliday = (days: Date[], id: HolidayId, rule: SubstituteRule) => {
+    let needsSubstitute = false
+    for (const day of days) {
+      const key = toKey(day)
+      if (holidays.has(key)) {
+        needsSubstitute = needsSubstitute || rule !== "none"
+        continue
+      }
+      holidays.set(key, { id })
+      if ((rule === "weekend" && isWeekend(day)) || (rule === "sunday" && isSunday(day))) {
+        needsSubstitute = true
+      }
+    }
+    if (needsSubstitute) {
+      substitutesAfter.push(days[days.length - 1])
+    }
+  }
+
+  const lunar = LUNAR_HOLIDAYS[year]
+  if (lunar) {
+    const seollal = toDate(lunar.seollal)
+    const chuseok = toDate(lunar.chuseok)
+    addHoliday([addDays(seollal, -1), seollal, addDays(seollal, 1)], "seollal", "sunday")
+    addHoliday([addDays(chuseok, -1), chuseok, addDays(chuseok, 1)], "chuseok", "sunday")
+    addHoliday([toDate(lunar.buddhasBirthday)], "buddhasBirthday", "weekend")
+  }
+
+  for (const { monthDay, id, rule } of FIXED_HOLIDAYS) {
+    addHoliday([toDate(`${year}${monthDay}`)], id, rule)
+  }
+
+  // Each substitute is the first working day after the holiday it makes up for
+  substitutesAfter
+    .sort((a, b) => a.getTime() - b.getTime())
+    .forEach(after => {
+      let day = addDays(after, 1)
+      while (isWeekend(day) || holidays.has(toKey(day))) {
+        day = addDays(day, 1)
+      }
+      holidays.set(toKey(day), { id: "substitute" })
+    })
+
+  for (const closure of CAFETERIA_CLOSURES) {
+    if (closure.startsWith(String(year)) && !holidays.has(closure)) {
+      holidays.set(closure, { id: "closure" })
+    }
+  }
+
+  return holidays
+}
+
+const yearCache = new Map<number, Map<string, Holiday>>()
+
+/**
+ * Get the public holiday or cafeteria closure on a yyyyMMdd date, if any
+ */
+export function getHoliday(date: string): Holiday | null {
+  const year = Number(date.slice(0, 4))
+  let holidays = yearCache.get(year)
+  if (!holidays) {
+    holidays = buildYear(year)
+    yearCache.set(year, holidays)
+  }
+  return holidays.get(date) ?? null
+}
+
+/**
+ * Get the localized holiday name for a yyyyMMdd date, if it is a holiday
+ */
+export function getHolidayName(date: string, language: Language): string | null {
+  const holiday = getHoliday(date)
+  return holiday ? getMessages(language).holidays[holiday.id] : null
+}
@@ -0,0 +1,58 @@
+import { Language, isLanguage } from "@/types/menu"
+
+// The language preference is kept in localStorage for the client and mirrored
+// in a cookie (written by the changeLanguage action) so the server renders in it too
+export const LANGUAGE_STORAGE_KEY = "gasan-menu-language"
+export const LANGUAGE_COOKIE = "gasan-menu-language"
+export const LANGUAGE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60 // 1 year, in seconds
+
+export const DEFAULT_LANGUAGE: Language = "en"
+
+// The cafeteria writes its menus in Korean; bilingual mode shows these names alongside
+export const ORIGINAL_LANGUAGE: Language = "ko"
+export const BILINGUAL_STORAGE_KEY = "gasan-menu-bilingual"
+
+/**
+ * Map a BCP 47 tag like "sv-SE" or "zh-Hant-TW" to a supported language
+ */
+export function matchLanguage(tag: string): Language | null {
+  const primary = tag.trim().toLowerCase().split("-")[0]
+  return isLanguage(primary) ? primary : null
+}
+
+/**
+ * Pick the best supported language from an Accept-Language header, honouring q-values
+ */
+export function matchAcceptLanguage(header: string | null): Language | null {
+  if (!header) return null
+
+  const candidates = header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.split(";")
+      const quality = params
+        .map(param => param.trim())
+        .find(param => param.startsWith("q="))
+      return { tag, index, q: quality ? Number(quality.slice(2)) : 1 }
+    })
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+
+  for (const { tag } of candidates) {
+    const language = matchLanguage(tag)
+    if (language) return language
+  }
+  return null
+}
+
+/**
+ * Pick the best supported language from the browser's preferred languages
+ */
+export function detectBrowserLanguage(): Language | null {
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language]
+  for (const tag of languages) {
+    const language = matchLanguage(tag)
+    if (language) return language
+  }
+  return null
+}
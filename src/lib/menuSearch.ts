@@ -0,0 +1,81 @@
+import { DayMenu, MenuItem } from "@/types/menu"
+
+export type MealKey = "lunch" | "dinner" | "salad" | "dessert"
+
+export interface MenuSearchMatch {
+  item: MenuItem
+  matchedText: string // The name, description or side dish that matched
+}
+
+export interface MenuSearchResult {
+  date: string
+  meals: Array<{ meal: MealKey; matches: MenuSearchMatch[] }>
+}
+
+// Date windows to search, in days relative to today
+export const SEARCH_WINDOWS = {
+  next14: { from: 0, to: 14 },
+  next30: { from: 0, to: 30 },
+  around14: { from: -14, to: 14 },
+  past14: { from: -14, to: 0 },
+} as const
+
+export type SearchWindowId = keyof typeof SEARCH_WINDOWS
+
+const MEAL_ORDER: MealKey[] = ["lunch", "salad", "dessert", "dinner"]
+
+/**
+ * Case-insensitive and accent-insensitive for Latin scripts ("cafe" finds "Café", "com" finds "Cơm").
+ * Only combining accents are dropped, so Hangul and kana compare as written.
+ */
+export function normalizeMenuText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .normalize("NFC")
+}
+
+function getMealItems(day: DayMenu, meal: MealKey): MenuItem[] {
+  switch (meal) {
+    case "lunch":
+      return day.lunch
+    case "dinner":
+      return day.dinner
+    case "salad":
+      return day.salad ? [day.salad] : []
+    case "dessert":
+      return day.dessert ? [day.dessert] : []
+  }
+}
+
+function matchItem(item: MenuItem, query: string): MenuSearchMatch | null {
+  const matchedText = [item.name, item.description, ...item.sub_menus].find(
+    text => text && normalizeMenuText(text).includes(query)
+  )
+  return matchedText ? { item, matchedText } : null
+}
+
+/**
+ * Find dishes whose name, description or side dishes contain the query,
+ * grouped by date (in the order given) and then by meal
+ */
+export function searchMenus(days: DayMenu[], query: string): MenuSearchResult[] {
+  const normalizedQuery = normalizeMenuText(query.trim())
+  if (!normalizedQuery) return []
+
+  const results: MenuSearchResult[] = []
+  for (const day of days) {
+    const meals = MEAL_ORDER.map(meal => ({
+      meal,
+      matches: getMealItems(day, meal)
+        .map(item => matchItem(item, normalizedQuery))
+        .filter((match): match is MenuSearchMatch => match !== null),
+    })).filter(({ matches }) => matches.length > 0)
+
+    if (meals.length > 0) {
+      results.push({ date: day.date, meals })
+    }
+  }
+  return results
+}
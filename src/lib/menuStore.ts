@@ -0,0 +1,218 @@
+import { DayMenu } from '@/types/menu';
+
+// Persistent offline store for day menus, backed by IndexedDB.
+// Entries are indexed by date and language and evicted by age and least recent use.
+
+export interface StoredDayMenu {
+  key: string; // `${date}-${language}`
+  date: string;
+  language: string;
+  data: DayMenu;
+  timestamp: number; // When the menu was fetched
+  isEmpty: boolean;
+  lastAccessed: number;
+}
+
+export interface MenuStoreUsage {
+  entries: number;
+  bytes: number; // Approximate size of the stored menus
+}
+
+const DB_NAME = 'gasan-menu';
+const DB_VERSION = 1;
+const STORE_NAME = 'days';
+
+const MAX_ENTRIES = 400;
+const MAX_AGE = 30 * 24 * 60 * 60 * 1000; // Menus fetched more than 30 days ago are dropped
+const EVICTION_INTERVAL = 60 * 1000; // Run eviction at most once a minute
+
+// Keys and flag used by the localStorage cache this store replaces
+const LEGACY_KEY_PREFIX = 'menu-day-';
+const MIGRATION_FLAG_KEY = 'menu-store-migrated';
+
+let database: Promise<IDBDatabase | null> | null = null;
+let lastEviction = 0;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function getStoreKey(date: string, language: string): string {
+  return `${date}-${language}`;
+}
+
+// Move `menu-day-*` entries left by the localStorage cache into IndexedDB, once
+async function migrateLegacyEntries(db: IDBDatabase) {
+  if (localStorage.getItem(MIGRATION_FLAG_KEY)) return;
+
+  const legacyKeys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(LEGACY_KEY_PREFIX)) {
+      legacyKeys.push(key);
+    }
+  }
+
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  const now = Date.now();
+  for (const legacyKey of legacyKeys) {
+    try {
+      const { data, timestamp, isEmpty }: { data: DayMenu; timestamp: number; isEmpty: boolean } =
+        JSON.parse(localStorage.getItem(legacyKey)!);
+      const entry: StoredDayMenu = {
+        key: getStoreKey(data.date, data.language),
+        date: data.date,
+        language: data.language,
+        data,
+        timestamp,
+        isEmpty,
+        lastAccessed: now,
+      };
+      store.put(entry);
+    } catch {
+      // Corrupt entry, drop it with the rest
+    }
+  }
+  await transactionDone(transaction);
+
+  legacyKeys.forEach(key => localStorage.removeItem(key));
+  localStorage.setItem(MIGRATION_FLAG_KEY, '1');
+}
+
+async function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof window === 'undefined' || !('indexedDB' in window)) return null;
+
+  try {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      store.createIndex('date', 'date');
+      store.createIndex('language', 'language');
+      store.createIndex('lastAccessed', 'lastAccessed');
+    };
+    const db = await requestToPromise(request);
+
+    await migrateLegacyEntries(db).catch(error => {
+      console.warn('Failed to migrate menu cache from localStorage:', error);
+    });
+    return db;
+  } catch (error) {
+    // Private mode or blocked storage: callers fall back to the memory cache
+    console.warn('IndexedDB unavailable, menus will not be stored offline:', error);
+    return null;
+  }
+}
+
+function getDatabase(): Promise<IDBDatabase | null> {
+  if (!database) {
+    database = openDatabase();
+  }
+  return database;
+}
+
+// Drop menus past MAX_AGE, then the least recently used ones over MAX_ENTRIES
+async function evictEntries(db: IDBDatabase) {
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  const cutoff = Date.now() - MAX_AGE;
+  const total = await requestToPromise(store.count());
+  let toRemove = total - MAX_ENTRIES;
+
+  const cursorRequest = store.index('lastAccessed').openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+
+    const entry = cursor.value as StoredDayMenu;
+    if (toRemove > 0 || entry.timestamp < cutoff) {
+      cursor.delete();
+      toRemove--;
+    }
+    cursor.continue();
+  };
+
+  await transactionDone(transaction);
+}
+
+/**
+ * Read a stored menu and mark it as recently used
+ */
+export async function readStoredDay(date: string, language: string): Promise<StoredDayMenu | null> {
+  const db = await getDatabase();
+  if (!db) return null;
+
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  const entry: StoredDayMenu | undefined = await requestToPromise(store.get(getStoreKey(date, language)));
+  if (entry) {
+    entry.lastAccessed = Date.now();
+    store.put(entry);
+  }
+  await transactionDone(transaction);
+
+  return entry ?? null;
+}
+
+/**
+ * Store a menu, evicting old entries now and then
+ */
+export async function writeStoredDay(data: DayMenu, timestamp: number, isEmpty: boolean): Promise<void> {
+  const db = await getDatabase();
+  if (!db) return;
+
+  const entry: StoredDayMenu = {
+    key: getStoreKey(data.date, data.language),
+    date: data.date,
+    language: data.language,
+    data,
+    timestamp,
+    isEmpty,
+    lastAccessed: Date.now(),
+  };
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  transaction.objectStore(STORE_NAME).put(entry);
+  await transactionDone(transaction);
+
+  if (Date.now() - lastEviction > EVICTION_INTERVAL) {
+    lastEviction = Date.now();
+    await evictEntries(db);
+  }
+}
+
+/**
+ * Remove a stored menu
+ */
+export async function deleteStoredDay(date: string, language: string): Promise<void> {
+  const db = await getDatabase();
+  if (!db) return;
+
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  transaction.objectStore(STORE_NAME).delete(getStoreKey(date, language));
+  await transactionDone(transaction);
+}
+
+/**
+ * Count stored menus and their approximate size
+ */
+export async function getMenuStoreUsage(): Promise<MenuStoreUsage> {
+  const db = await getDatabase();
+  if (!db) return { entries: 0, bytes: 0 };
+
+  const transaction = db.transaction(STORE_NAME, 'readonly');
+  const entries: StoredDayMenu[] = await requestToPromise(transaction.objectStore(STORE_NAME).getAll());
+  const bytes = entries.reduce((sum, entry) => sum + new Blob([JSON.stringify(entry)]).size, 0);
+
+  return { entries: entries.length, bytes };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import { MenuItem } from "@/types/menu"
+import { findAllergens, getItemTags } from "./menuTags"
+
+function makeItem(overrides: Partial<MenuItem>): MenuItem {
+  return { id: 1, name: "", meal_type: "lunch", corner_name: "", description: "", sub_menus: [], ...overrides }
+}
+
+describe("findAllergens", () => {
+  it("finds allergens in every script", () => {
+    expect(findAllergens("계란말이")).toEqual(["eggs"])
+    expect(findAllergens("Shrimp fried rice")).toEqual(["shrimp"])
+    expect(findAllergens("番茄炒蛋")).toEqual(["eggs", "tomato"])
+    expect(findAllergens("Cá thu nướng")).toEqual(["mackerel"])
+  })
+
+  it("matches Latin keywords only at the start of a word", () => {
+    expect(findAllergens("Champignon soup")).toEqual([])
+    expect(findAllergens("Ham sandwich")).toEqual(["pork"])
+  })
+
+  it("does not mistake look-alike words", () => {
+    expect(findAllergens("Eggplant")).toEqual([])
+    expect(findAllergens("Butternut squash")).toEqual([])
+    expect(findAllergens("굴비구이")).toEqual([])
+    expect(findAllergens("굴국밥")).toEqual(["shellfish"])
+    expect(findAllergens("햄버거")).toEqual([])
+    expect(findAllergens("Tương ớt")).toEqual([])
+    expect(findAllergens("Ostron")).toEqual(["shellfish"])
+  })
+})
+
+describe("getItemTags", () => {
+  it("uses the upstream tags when there are any", () => {
+    const tags = getItemTags(makeItem({ name: "계란말이", allergens: [], dietary: ["vegetarian"] }))
+    expect(tags).toEqual({ allergens: [], dietary: ["vegetarian"], inferredAllergens: false, inferredDietary: false })
+  })
+
+  it("infers tags from the name, description and side dishes", () => {
+    const tags = getItemTags(makeItem({ name: "제육볶음", description: "매콤한", sub_menus: ["계란국"] }))
+    expect(tags.allergens).toEqual(["eggs", "pork"])
+    expect(tags.dietary).toEqual(["pork", "spicy"])
+    expect(tags.inferredAllergens).toBe(true)
+    expect(tags.inferredDietary).toBe(true)
+  })
+})
@@ -0,0 +1,91 @@
+import { ALLERGENS, Allergen, DIETARY_FLAGS, DietaryFlag, MenuItem } from "@/types/menu"
+
+export interface ItemTags {
+  allergens: Allergen[]
+  dietary: DietaryFlag[]
+  inferredAllergens: boolean // Guessed from the text because the upstream did not say
+  inferredDietary: boolean
+}
+
+// Keywords in every supported language. Latin-script words must start a word
+// ("ham" does not match "champignon"); other scripts match anywhere.
+// RegExps cover the cases a plain word would get wrong.
+const ALLERGEN_KEYWORDS: Record<Allergen, Array<string | RegExp>> = {
+  eggs: ["계란", "달걀", "메추리알", "오믈렛", "스크램블", /\begg(?!plant)/i, "omelet", "mayo", "蛋", "卵", "玉子", "たまご", "オムレツ", "trứng", "ägg", "omelett"],
+  milk: ["우유", "치즈", "요거트", "요구르트", "크림", "버터", "라떼", "milk", "cheese", "yogurt", "yoghurt", "cream", /(?<!\p{L})butter(?!nut)/iu, "ricotta", "latte", "奶", "芝士", "乳", "チーズ", "ヨーグルト", "クリーム", "sữa", "phô mai", "mjölk", /(?<!\p{L})ost(?!ron)/iu, "grädde", "smör"],
+  buckwheat: ["메밀", "buckwheat", "soba", "荞麦", "そば", "蕎麦", "kiều mạch", "bovete"],
+  peanut: ["땅콩", "peanut", "花生", "落花生", "ピーナッツ", "đậu phộng", "lạc", "jordnöt"],
+  soybean: ["두부", "된장", "대두", "콩", "유부", "간장", "미소", "tofu", "soy", "miso", "bean sprout", "豆腐", "大豆", "豆芽", "味噌", "いなり", "đậu phụ", "đậu nành", /(?<!\p{L})tương(?!\s*ớt)/iu, "soja", "böngroddar"],
+  wheat: ["밀가루", "빵", "파스타", "스파게티", "우동", "라면", "국수", "짜장", "짬뽕", "돈까스", "돈가스", "튀김", "만두", "수제비", "bread", "pasta", "spaghetti", "udon", "noodle", "ramen", "flour", "cutlet", "tempura", "dumpling", "toast", "面", "乌冬", "饺子", "小麦", "パン", "パスタ", "うどん", "麺", "ラーメン", "mì", "bánh mì", "bột mì", "vete", "bröd", "nudlar"],
+  mackerel: ["고등어", "mackerel", "鲭", "サバ", "鯖", "cá thu", "makrill"],
+  crab: ["꽃게", "대게", "게살", "크랩", "crab", "蟹", "カニ", "cua", "krabba"],
+  shrimp: ["새우", "쉬림프", "shrimp", "prawn", "虾", "エビ", "海老", "tôm", "räk"],
+  pork: ["돼지", "돈육", "제육", "삼겹", "목살", "돈까스", "돈가스", /햄(?!버거)/, "베이컨", "소시지", "보쌈", "족발", "pork", "bacon", /\bham\b/i, "sausage", "猪", "培根", "火腿", "豚", "ポーク", "ベーコン", "ハム", "heo", "lợn", "xúc xích", "fläsk", "skinka", "korv"],
+  peach: ["복숭아", "peach", "桃", "đào", "persika"],
+  tomato: ["토마토", "케첩", "tomato", "ketchup", "番茄", "西红柿", "トマト", "cà chua", "tomat"],
+  sulfites: ["와인", "건포도", "wine", "raisin", "葡萄酒", "葡萄干", "ワイン", "レーズン", "rượu vang", "nho khô", /\bvin\b/i, "russin"],
+  walnut: ["호두", "walnut", "核桃", "くるみ", "óc chó", "valnöt"],
+  chicken: ["닭", "치킨", "계육", "chicken", "鸡", "鶏", "チキン", "gà", "kyckling"],
+  beef: ["소고기", "쇠고기", "우육", "불고기", "육개장", "차돌", "스테이크", "비프", "beef", "bulgogi", "steak", /牛(?!奶|乳)/, "ビーフ", "bò", "nötkött", "biff"],
+  squid: ["오징어", "squid", "鱿鱼", "イカ", "mực", "bläckfisk"],
+  shellfish: ["조개", /굴(?!비)/, "전복", "홍합", "바지락", "꼬막", "shellfish", "clam", "oyster", "mussel", "abalone", "贝", "蛤", "牡蛎", "鲍", "貝", "牡蠣", "アワビ", "sò", "nghêu", "hàu", "bào ngư", "musslor", "ostron", "skaldjur"],
+  pine_nut: ["잣", "pine nut", "松子", "松の実", "hạt thông", "pinjenöt"],
+}
+
+const DIETARY_KEYWORDS: Record<DietaryFlag, Array<string | RegExp>> = {
+  vegetarian: ["채식", "비건", "베지", "vegetarian", "vegan", "veggie", "素食", "菜食", "ベジ", "chay", "vegetarisk", "vegansk"],
+  pork: ALLERGEN_KEYWORDS.pork,
+  beef: ALLERGEN_KEYWORDS.beef,
+  spicy: ["매운", "매콤", "얼큰", "고추장", "제육", "닭갈비", "떡볶이", "짬뽕", "마라", "불닭", "spicy", "gochujang", /\bmala\b/i, "辣", "辛", "cay", "stark", "kryddig"],
+  halal_friendly: ["할랄", "halal", "清真", "ハラール"],
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function toPattern(keyword: string | RegExp): RegExp {
+  if (keyword instanceof RegExp) return keyword
+  const escaped = escapeRegExp(keyword)
+  return /^\p{Script=Latin}/u.test(keyword) ? new RegExp(`(?<!\\p{L})${escaped}`, "iu") : new RegExp(escaped, "u")
+}
+
+function compile<T extends string>(keywords: Record<T, Array<string | RegExp>>): Record<T, RegExp[]> {
+  const patterns = {} as Record<T, RegExp[]>
+  for (const tag of Object.keys(keywords) as T[]) {
+    patterns[tag] = keywords[tag].map(toPattern)
+  }
+  return patterns
+}
+
+const ALLERGEN_PATTERNS = compile(ALLERGEN_KEYWORDS)
+const DIETARY_PATTERNS = compile(DIETARY_KEYWORDS)
+
+function matchTags<T extends string>(text: string, tags: readonly T[], patterns: Record<T, RegExp[]>): T[] {
+  return tags.filter(tag => patterns[tag].some(pattern => pattern.test(text)))
+}
+
+// Side dishes count too: an allergen in the kimchi matters as much as one in the main dish
+function inferTags<T extends string>(item: MenuItem, tags: readonly T[], patterns: Record<T, RegExp[]>): T[] {
+  return matchTags([item.name, item.description, ...item.sub_menus].join("\n"), tags, patterns)
+}
+
+/**
+ * Allergens mentioned in a piece of menu text, e.g. a single side dish
+ */
+export function findAllergens(text: string): Allergen[] {
+  return matchTags(text, ALLERGENS, ALLERGEN_PATTERNS)
+}
+
+/**
+ * Allergens and dietary flags for an item, from the upstream when it sends them,
+ * otherwise guessed from keywords in the name, description and side dishes
+ */
+export function getItemTags(item: MenuItem): ItemTags {
+  return {
+    allergens: item.allergens ?? inferTags(item, ALLERGENS, ALLERGEN_PATTERNS),
+    dietary: item.dietary ?? inferTags(item, DIETARY_FLAGS, DIETARY_PATTERNS),
+    inferredAllergens: item.allergens === undefined,
+    inferredDietary: item.dietary === undefined,
+  }
+}
@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CacheEntry, ServerCache } from './types';
+
+interface IndexEntry {
+  expiresAt: number;
+  lastAccess: number;
+}
+
+function fileNameForKey(key: string): string {
+  return `${encodeURIComponent(key)}.json`;
+}
+
+// Temp files written by this process, numbered so concurrent writes of one key never share one
+let tempFileCount = 0;
+
+// One JSON file per key, so entries survive restarts and cold starts.
+// An in-memory index tracks expiry and last access for LRU eviction. It is rebuilt
+// on first use by reading every entry's expiry once; last access is kept in each
+// file's mtime (touched on every hit), so the LRU order survives restarts too.
+export function createFileCache<T>(directory: string, maxEntries: number): ServerCache<T> {
+  let index: Promise<Map<string, IndexEntry>> | null = null;
+
+  function filePath(key: string): string {
+    return path.join(directory, fileNameForKey(key));
+  }
+
+  async function loadIndex(): Promise<Map<string, IndexEntry>> {
+    await fs.mkdir(directory, { recursive: true });
+    const entries = new Map<string, IndexEntry>();
+
+    for (const fileName of await fs.readdir(directory)) {
+      if (!fileName.endsWith('.json')) continue;
+      try {
+        const fullPath = path.join(directory, fileName);
+        const [content, stat] = await Promise.all([fs.readFile(fullPath, 'utf8'), fs.stat(fullPath)]);
+        const { expiresAt }: CacheEntry<T> = JSON.parse(content);
+        entries.set(decodeURIComponent(fileName.slice(0, -'.json'.length)), {
+          expiresAt,
+          lastAccess: stat.mtimeMs,
+        });
+      } catch {
+        // Unreadable file, leave it for the next write to overwrite
+      }
+    }
+
+    return entries;
+  }
+
+  function getIndex() {
+    if (!index) {
+      index = loadIndex();
+    }
+    return index;
+  }
+
+  async function remove(entries: Map<string, IndexEntry>, key: string) {
+    entries.delete(key);
+    await fs.rm(filePath(key), { force: true });
+  }
+
+  return {
+    name: 'file',
+    async get(key) {
+      const entries = await getIndex();
+      const meta = entries.get(key);
+      if (!meta) return null;
+
+      const now = Date.now();
+      if (meta.expiresAt <= now) {
+        await remove(entries, key);
+        return null;
+      }
+
+      try {
+        const entry: CacheEntry<T> = JSON.parse(await fs.readFile(filePath(key), 'utf8'));
+        meta.lastAccess = now;
+        // Best effort: a failed touch only makes the entry look older after a restart
+        await fs.utimes(filePath(key), new Date(now), new Date(now)).catch(() => {});
+        return entry;
+      } catch {
+        await remove(entries, key);
+        return null;
+      }
+    },
+    async set(key, value, ttlMs) {
+      const entries = await getIndex();
+      const now = Date.now();
+      const entry: CacheEntry<T> = { value, expiresAt: now + ttlMs };
+
+      // Write to a temp file first so readers never see a half-written entry
+      const target = filePath(key);
+      const temp = `${target}.${process.pid}.${++tempFileCount}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(entry));
+      await fs.rename(temp, target);
+      entries.set(key, { expiresAt: entry.expiresAt, lastAccess: now });
+
+      // Drop expired entries, then the least recently used ones over the limit
+      const expired = [...entries].filter(([, meta]) => meta.expiresAt <= now).map(([k]) => k);
+      const overflow = [...entries]
+        .filter(([, meta]) => meta.expiresAt > now)
+        .sort(([, a], [, b]) => a.lastAccess - b.lastAccess)
+        .slice(0, Math.max(0, entries.size - expired.length - maxEntries))
+        .map(([k]) => k);
+      await Promise.all([...expired, ...overflow].map(k => remove(entries, k)));
+    },
+    async delete(key) {
+      await remove(await getIndex(), key);
+    },
+  };
+}
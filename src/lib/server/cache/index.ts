@@ -0,0 +1,51 @@
+import path from 'path';
+import { DayMenu } from '@/types/menu';
+import { ServerCache } from './types';
+import { createMemoryCache } from './memoryCache';
+import { createFileCache } from './fileCache';
+import { createSqliteCache } from './sqliteCache';
+
+export type { CacheEntry, ServerCache } from './types';
+
+export interface MenuCacheValue {
+  data: DayMenu;
+  isEmpty: boolean;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_CACHE_DIR = path.join(process.cwd(), '.cache');
+
+// Route handlers are bundled separately (and reloaded in dev), so the
+// cache instance lives on globalThis to be shared between them
+const globalForCache = globalThis as unknown as {
+  menuCache?: ServerCache<MenuCacheValue>;
+};
+
+function createMenuCache(): ServerCache<MenuCacheValue> {
+  const driver = process.env.MENU_CACHE_DRIVER || 'memory';
+  const maxEntries = Number(process.env.MENU_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES;
+  const directory = process.env.MENU_CACHE_DIR || DEFAULT_CACHE_DIR;
+
+  switch (driver) {
+    case 'memory':
+      return createMemoryCache(maxEntries);
+    case 'file':
+      return createFileCache(path.join(directory, 'menu'), maxEntries);
+    case 'sqlite':
+      return createSqliteCache(
+        process.env.MENU_CACHE_SQLITE_PATH || path.join(directory, 'menu.sqlite'),
+        maxEntries
+      );
+    default:
+      throw new Error(`Unknown MENU_CACHE_DRIVER "${driver}" (expected "memory", "file" or "sqlite")`);
+  }
+}
+
+// Get the shared menu cache, creating it from config on first use:
+//   MENU_CACHE_DRIVER=memory (default) | file | sqlite
+//   MENU_CACHE_MAX_ENTRIES bounds the number of cached days (default 500)
+//   MENU_CACHE_DIR / MENU_CACHE_SQLITE_PATH choose where file and sqlite caches live
+export function getMenuCache(): ServerCache<MenuCacheValue> {
+  globalForCache.menuCache ??= createMenuCache();
+  return globalForCache.menuCache;
+}
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryCache } from './memoryCache';
+
+describe('createMemoryCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns what was stored until it expires', async () => {
+    const cache = createMemoryCache<string>(10);
+    await cache.set('a', 'value', 1000);
+    expect((await cache.get('a'))?.value).toBe('value');
+
+    vi.advanceTimersByTime(1000);
+    expect(await cache.get('a')).toBeNull();
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const cache = createMemoryCache<number>(2);
+    await cache.set('a', 1, 1000);
+    await cache.set('b', 2, 1000);
+    await cache.get('a');
+    await cache.set('c', 3, 1000);
+
+    expect(await cache.get('b')).toBeNull();
+    expect((await cache.get('a'))?.value).toBe(1);
+    expect((await cache.get('c'))?.value).toBe(3);
+  });
+
+  it('drops expired entries before evicting live ones', async () => {
+    const cache = createMemoryCache<number>(2);
+    await cache.set('a', 1, 5000);
+    await cache.set('b', 2, 100);
+    vi.advanceTimersByTime(100);
+    await cache.set('c', 3, 5000);
+
+    expect((await cache.get('a'))?.value).toBe(1);
+    expect((await cache.get('c'))?.value).toBe(3);
+  });
+
+  it('deletes entries', async () => {
+    const cache = createMemoryCache<number>(2);
+    await cache.set('a', 1, 1000);
+    await cache.delete('a');
+    expect(await cache.get('a')).toBeNull();
+  });
+});
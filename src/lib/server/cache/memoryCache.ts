@@ -0,0 +1,42 @@
+import { CacheEntry, ServerCache } from './types';
+
+// Process-local cache. Map iteration order doubles as the LRU order:
+// reads re-insert the key, so the first key is always the least recently used.
+export function createMemoryCache<T>(maxEntries: number): ServerCache<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  function pruneExpired(now: number) {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+  }
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return null;
+
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, value, ttlMs) {
+      const now = Date.now();
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now + ttlMs });
+
+      pruneExpired(now);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { CacheEntry, ServerCache } from './types';
+
+interface CacheRow {
+  value: string;
+  expires_at: number;
+}
+
+async function openDatabase(filename: string): Promise<BetterSqlite3.Database> {
+  // better-sqlite3 is an optional native dependency, only loaded when this driver is selected
+  const { default: Database } = await import('better-sqlite3');
+  await fs.mkdir(path.dirname(filename), { recursive: true });
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS menu_cache (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      expires_at INTEGER NOT NULL,
+      last_access INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS menu_cache_last_access ON menu_cache (last_access);
+  `);
+  return db;
+}
+
+// SQLite-backed cache, shared by every process that points at the same file
+export function createSqliteCache<T>(filename: string, maxEntries: number): ServerCache<T> {
+  let database: Promise<BetterSqlite3.Database> | null = null;
+
+  function getDatabase() {
+    if (!database) {
+      database = openDatabase(filename);
+    }
+    return database;
+  }
+
+  return {
+    name: 'sqlite',
+    async get(key) {
+      const db = await getDatabase();
+      const now = Date.now();
+      const row = db
+        .prepare('SELECT value, expires_at FROM menu_cache WHERE key = ?')
+        .get(key) as CacheRow | undefined;
+      if (!row) return null;
+
+      if (row.expires_at <= now) {
+        db.prepare('DELETE FROM menu_cache WHERE key = ?').run(key);
+        return null;
+      }
+
+      db.prepare('UPDATE menu_cache SET last_access = ? WHERE key = ?').run(now, key);
+      const entry: CacheEntry<T> = { value: JSON.parse(row.value), expiresAt: row.expires_at };
+      return entry;
+    },
+    async set(key, value, ttlMs) {
+      const db = await getDatabase();
+      const now = Date.now();
+
+      db.transaction(() => {
+        db.prepare(`
+          INSERT INTO menu_cache (key, value, expires_at, last_access) VALUES (?, ?, ?, ?)
+          ON CONFLICT (key) DO UPDATE SET
+            value = excluded.value,
+            expires_at = excluded.expires_at,
+            last_access = excluded.last_access
+        `).run(key, JSON.stringify(value), now + ttlMs, now);
+
+        // Drop expired entries, then the least recently used ones over the limit
+        db.prepare('DELETE FROM menu_cache WHERE expires_at <= ?').run(now);
+        db.prepare(`
+          DELETE FROM menu_cache WHERE key IN (
+            SELECT key FROM menu_cache ORDER BY last_access ASC
+            LIMIT MAX(0, (SELECT COUNT(*) FROM menu_cache) - ?)
+          )
+        `).run(maxEntries);
+      })();
+    },
+    async delete(key) {
+      const db = await getDatabase();
+      db.prepare('DELETE FROM menu_cache WHERE key = ?').run(key);
+    },
+  };
+}
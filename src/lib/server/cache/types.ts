@@ -0,0 +1,13 @@
+export interface CacheEntry<T> {
+  value: T;
+  expiresAt: number; // Epoch ms; expired entries are never returned
+}
+
+// Key/value store behind the menu routes. Every implementation is bounded
+// (least recently used entries are evicted first) and expires entries by TTL.
+export interface ServerCache<T> {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry<T> | null>;
+  set(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
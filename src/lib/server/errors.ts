@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { MenuValidationError } from '@/types/menu';
+import { ApiErrorBody, ApiErrorCode } from '@/types/api';
+
+// An error with a known HTTP status, raised by request validation and providers
+export class MenuApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string,
+    public field?: string
+  ) {
+    super(message);
+    this.name = 'MenuApiError';
+  }
+}
+
+// Status and JSON body for an error; also used for the per-day errors of a range response
+export function toErrorBody(error: unknown): { status: number; body: ApiErrorBody } {
+  if (error instanceof MenuApiError) {
+    return {
+      status: error.status,
+      body: { error: error.code, message: error.message, field: error.field },
+    };
+  }
+
+  if (error instanceof MenuValidationError) {
+    // The upstream answered, but with something we cannot use
+    return {
+      status: 502,
+      body: { error: 'INVALID_UPSTREAM_PAYLOAD', message: error.message, field: error.field },
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : String(error),
+    },
+  };
+}
+
+// Build the JSON error response for a failed menu request
+export function menuErrorResponse(error: unknown) {
+  const { status, body } = toErrorBody(error);
+  if (status >= 500) {
+    console.error('Error fetching menu:', error);
+  }
+
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      'Cache-Control': 'no-store', // Don't cache errors
+    },
+  });
+}
@@ -0,0 +1,14 @@
+import { cookies, headers } from 'next/headers';
+import { Language, isLanguage } from '@/types/menu';
+import { DEFAULT_LANGUAGE, LANGUAGE_COOKIE, matchAcceptLanguage } from '@/lib/language';
+
+// The language saved by the changeLanguage action, if any
+export function getLanguageCookie(): Language | null {
+  const value = cookies().get(LANGUAGE_COOKIE)?.value;
+  return isLanguage(value) ? value : null;
+}
+
+// The visitor's preferred language: the saved cookie, then the browser's Accept-Language
+export function getPreferredLanguage(): Language {
+  return getLanguageCookie() ?? matchAcceptLanguage(headers().get('accept-language')) ?? DEFAULT_LANGUAGE;
+}
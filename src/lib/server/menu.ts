@@ -0,0 +1,147 @@
+import { DayMenu, Language, MenuItem, parseDayMenu } from '@/types/menu';
+import { ORIGINAL_LANGUAGE } from '@/lib/language';
+import { getMenuProvider } from './providers';
+import { getMenuCache } from './cache';
+
+export interface ServerDayMenuResult {
+  data: DayMenu;
+  isEmpty: boolean;
+  cacheHit: boolean;
+  maxAge: number; // seconds left before the entry expires
+}
+
+export const CACHE_DURATION = 6 * 60 * 60 * 1000; // 6 hours; also the longest max-age the routes send
+const EMPTY_CACHE_DURATION = 1 * 60 * 60 * 1000; // 1 hour for empty menus
+
+// Check if menu data is empty
+function isMenuEmpty(data: DayMenu): boolean {
+  return data.lunch.length === 0 &&
+         data.dinner.length === 0 &&
+         !data.salad &&
+         !data.dessert;
+}
+
+// Language used for items the upstream has not translated
+const FALLBACK_LANGUAGE: Language = 'en';
+
+// Untranslated items come back without a name. A missing meal or an empty list is
+// just a day without it, not something to fill in from another language.
+function isUntranslated(item: MenuItem | null): item is MenuItem {
+  return item !== null && item.name.trim() === '';
+}
+
+function needsFallback(data: DayMenu): boolean {
+  return [...data.lunch, ...data.dinner, data.salad, data.dessert].some(isUntranslated);
+}
+
+function mergeItems(items: MenuItem[], fallback: MenuItem[]): MenuItem[] {
+  return items.map(item => (isUntranslated(item) && fallback.find(({ id }) => id === item.id)) || item);
+}
+
+function mergeItem(item: MenuItem | null, fallback: MenuItem | null): MenuItem | null {
+  return isUntranslated(item) && fallback?.id === item.id ? fallback : item;
+}
+
+// Fill in untranslated items, per item, from the same day in the fallback language (matched by id)
+function mergeFallback(data: DayMenu, fallback: DayMenu): DayMenu {
+  return {
+    ...data,
+    lunch: mergeItems(data.lunch, fallback.lunch),
+    dinner: mergeItems(data.dinner, fallback.dinner),
+    salad: mergeItem(data.salad, fallback.salad),
+    dessert: mergeItem(data.dessert, fallback.dessert),
+  };
+}
+
+export interface ServerMenuStats {
+  cacheHits: number;
+  upstreamCalls: number;
+  coalesced: number; // Upstream calls saved by sharing an in-flight request
+  inflight: number;
+}
+
+// Upstream fetches currently running, keyed like the cache.
+// Concurrent misses for the same day share one promise instead of each hitting the upstream.
+// Kept on globalThis, like the cache, so every route handler sees the same requests and counters.
+const globalForMenu = globalThis as unknown as {
+  menuInflight?: Map<string, Promise<ServerDayMenuResult>>;
+  menuStats?: { cacheHits: number; upstreamCalls: number; coalesced: number };
+};
+const inflight = (globalForMenu.menuInflight ??= new Map());
+const stats = (globalForMenu.menuStats ??= { cacheHits: 0, upstreamCalls: 0, coalesced: 0 });
+
+export function getServerMenuStats(): ServerMenuStats {
+  return { ...stats, inflight: inflight.size };
+}
+
+// Fetch from the configured upstream and normalize it before it reaches the cache.
+// Broken payloads throw MenuValidationError and are never cached.
+async function fetchAndCache(date: string, lang: string, cacheKey: string): Promise<ServerDayMenuResult> {
+  stats.upstreamCalls++;
+  const raw = await getMenuProvider().fetchDayMenu(date, lang);
+  const { menu, issues } = parseDayMenu(raw, { date, language: lang });
+  if (issues.length > 0) {
+    console.warn(`Menu schema drift for ${cacheKey}:`, issues);
+  }
+
+  // The fallback day goes through the cache too, so it is fetched at most once.
+  // Korean is the source language, so there is nothing to translate it from.
+  let data = menu;
+  if (lang !== FALLBACK_LANGUAGE && lang !== ORIGINAL_LANGUAGE && needsFallback(menu)) {
+    try {
+      data = mergeFallback(menu, (await getServerDayMenu(date, FALLBACK_LANGUAGE)).data);
+    } catch (error) {
+      console.warn(`No ${FALLBACK_LANGUAGE} fallback for ${cacheKey}:`, error);
+    }
+  }
+  const isEmpty = isMenuEmpty(data);
+  const duration = isEmpty ? EMPTY_CACHE_DURATION : CACHE_DURATION;
+
+  // Store in server cache; a failing cache backend should not fail the request
+  await getMenuCache()
+    .set(cacheKey, { data, isEmpty }, duration)
+    .catch(error => console.error(`Failed to cache menu ${cacheKey}:`, error));
+
+  return {
+    data,
+    isEmpty,
+    cacheHit: false,
+    maxAge: duration / 1000,
+  };
+}
+
+// Fetch a single day from the backend, going through the server cache.
+// Shared by /api/menu/[date] and /api/menu/range so both hit the same entries.
+export async function getServerDayMenu(date: string, lang: string): Promise<ServerDayMenuResult> {
+  const cacheKey = `${date}-${lang}`;
+
+  // Check server-side cache first
+  const cached = await getMenuCache()
+    .get(cacheKey)
+    .catch(error => {
+      console.error(`Failed to read cached menu ${cacheKey}:`, error);
+      return null;
+    });
+  if (cached) {
+    stats.cacheHits++;
+    return {
+      data: cached.value.data,
+      isEmpty: cached.value.isEmpty,
+      cacheHit: true,
+      maxAge: Math.floor((cached.expiresAt - Date.now()) / 1000),
+    };
+  }
+
+  // Join a fetch that is already on its way
+  const pending = inflight.get(cacheKey);
+  if (pending) {
+    stats.coalesced++;
+    return pending;
+  }
+
+  const request = fetchAndCache(date, lang, cacheKey).finally(() => {
+    inflight.delete(cacheKey);
+  });
+  inflight.set(cacheKey, request);
+  return request;
+}
@@ -0,0 +1,52 @@
+import { isApiErrorBody } from '@/types/api';
+import { MenuApiError } from '../errors';
+import { MenuProvider } from './types';
+
+// Fetches menus from the upstream menu API.
+// Requests are aborted after timeoutMs so a hanging upstream surfaces as a 504.
+export function createHttpProvider(baseUrl: string, timeoutMs: number): MenuProvider {
+  return {
+    name: 'http',
+    async fetchDayMenu(date, lang) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/api/menu/${date}?lang=${lang}`, {
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          signal: controller.signal,
+          // Next.js built-in cache - revalidate every hour
+          next: { revalidate: 3600 },
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new MenuApiError(504, 'UPSTREAM_TIMEOUT', `Upstream did not respond within ${timeoutMs}ms`);
+        }
+        throw new MenuApiError(
+          502,
+          'UPSTREAM_ERROR',
+          error instanceof Error ? error.message : 'Upstream request failed'
+        );
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (response.status === 404) {
+        throw new MenuApiError(404, 'NOT_FOUND', `No menu found for ${date}`);
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        const message = isApiErrorBody(errorData)
+          ? errorData.message
+          : errorData.error || `Upstream responded with ${response.status}`;
+        throw new MenuApiError(502, 'UPSTREAM_ERROR', message);
+      }
+
+      return response.json();
+    },
+  };
+}
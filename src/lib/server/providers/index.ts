@@ -0,0 +1,34 @@
+import { MenuProvider } from './types';
+import { createHttpProvider } from './httpProvider';
+import { createMockProvider } from './mockProvider';
+
+export type { MenuProvider } from './types';
+
+const DEFAULT_API_URL = 'https://menu.api.sungwoonsong.com';
+const DEFAULT_TIMEOUT_MS = 8000;
+
+let provider: MenuProvider | null = null;
+
+// Pick the upstream from environment config:
+//   MENU_PROVIDER=http (default) fetches from MENU_API_URL, giving up after MENU_UPSTREAM_TIMEOUT_MS
+//   MENU_PROVIDER=mock serves local fixtures
+export function getMenuProvider(): MenuProvider {
+  if (provider) return provider;
+
+  const kind = process.env.MENU_PROVIDER || 'http';
+  switch (kind) {
+    case 'mock':
+      provider = createMockProvider();
+      break;
+    case 'http':
+      provider = createHttpProvider(
+        process.env.MENU_API_URL || DEFAULT_API_URL,
+        Number(process.env.MENU_UPSTREAM_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS
+      );
+      break;
+    default:
+      throw new Error(`Unknown MENU_PROVIDER "${kind}" (expected "http" or "mock")`);
+  }
+
+  return provider;
+}
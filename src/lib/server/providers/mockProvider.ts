@@ -0,0 +1,65 @@
+import { parse, isWeekend, differenceInCalendarDays } from 'date-fns';
+import { MenuProvider } from './types';
+import ko from './fixtures/ko.json';
+import en from './fixtures/en.json';
+import zh from './fixtures/zh.json';
+import sv from './fixtures/sv.json';
+import ja from './fixtures/ja.json';
+import vi from './fixtures/vi.json';
+
+interface FixtureItem {
+  id: number;
+  name: string;
+  meal_type: string;
+  corner_name: string;
+  description: string;
+  sub_menus: string[];
+  allergens?: number[];
+  dietary?: string[];
+}
+
+interface FixtureDay {
+  lunch: FixtureItem[];
+  dinner: FixtureItem[];
+  salad: FixtureItem | null;
+  dessert: FixtureItem | null;
+}
+
+// The vi fixture leaves some items untranslated, like the upstream sometimes does
+const fixtures: Record<string, { days: FixtureDay[] }> = { ko, en, zh, sv, ja, vi };
+
+// Arbitrary Monday used to rotate fixture days deterministically
+const ROTATION_EPOCH = new Date(2024, 0, 1);
+
+// Give every item a per-date id, the way the upstream numbers its rows
+function withDateId(item: FixtureItem, date: string): FixtureItem {
+  return { ...item, id: Number(date) * 100 + item.id };
+}
+
+// Serves fixture menus from local files so the app runs without a network.
+// Weekends are empty, weekdays rotate through the fixture days.
+export function createMockProvider(): MenuProvider {
+  return {
+    name: 'mock',
+    async fetchDayMenu(date, lang) {
+      const day = parse(date, 'yyyyMMdd', new Date());
+      const base = { date, language: lang };
+
+      if (isWeekend(day)) {
+        return { ...base, lunch: [], dinner: [], salad: null, dessert: null };
+      }
+
+      const { days } = fixtures[lang] ?? fixtures.en;
+      const offset = differenceInCalendarDays(day, ROTATION_EPOCH);
+      const template = days[((offset % days.length) + days.length) % days.length];
+
+      return {
+        ...base,
+        lunch: template.lunch.map(item => withDateId(item, date)),
+        dinner: template.dinner.map(item => withDateId(item, date)),
+        salad: template.salad && withDateId(template.salad, date),
+        dessert: template.dessert && withDateId(template.dessert, date),
+      };
+    },
+  };
+}
@@ -0,0 +1,6 @@
+// A source of raw day menus. Providers return the upstream payload untouched;
+// caching and shaping happen in the caller.
+export interface MenuProvider {
+  name: string;
+  fetchDayMenu(date: string, lang: string): Promise<unknown>;
+}
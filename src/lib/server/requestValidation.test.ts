@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { format } from 'date-fns';
+import { parseLanguage, parseMenuDate } from './requestValidation';
+import { MenuApiError } from './errors';
+
+function catchError(run: () => unknown): MenuApiError {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof MenuApiError) return error;
+    throw error;
+  }
+  throw new Error('expected a MenuApiError');
+}
+
+describe('parseMenuDate', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T03:00:00Z')); // Noon in Seoul
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('parses a yyyyMMdd date', () => {
+    expect(format(parseMenuDate('20261021'), 'yyyyMMdd')).toBe('20261021');
+  });
+
+  it('rejects values that are not yyyyMMdd', () => {
+    for (const value of [null, '', '2026-10-21', '2026102', 'abcdefgh']) {
+      const error = catchError(() => parseMenuDate(value));
+      expect(error.status).toBe(400);
+      expect(error.code).toBe('INVALID_DATE');
+      expect(error.field).toBe('date');
+    }
+  });
+
+  it('rejects dates that do not exist instead of rolling them over', () => {
+    expect(catchError(() => parseMenuDate('20260231')).message).toBe('date is not a calendar date');
+  });
+
+  it('rejects dates more than a year away', () => {
+    expect(parseMenuDate('20271019')).toBeInstanceOf(Date);
+    expect(catchError(() => parseMenuDate('20271021')).code).toBe('INVALID_DATE');
+    expect(catchError(() => parseMenuDate('20251017')).code).toBe('INVALID_DATE');
+  });
+
+  it('names the field it was given', () => {
+    expect(catchError(() => parseMenuDate('x', 'from')).field).toBe('from');
+  });
+});
+
+describe('parseLanguage', () => {
+  it('defaults to English', () => {
+    expect(parseLanguage(null)).toBe('en');
+    expect(parseLanguage('')).toBe('en');
+  });
+
+  it('accepts supported languages', () => {
+    expect(parseLanguage('ko')).toBe('ko');
+    expect(parseLanguage('vi')).toBe('vi');
+  });
+
+  it('rejects anything else', () => {
+    const error = catchError(() => parseLanguage('fr'));
+    expect(error.status).toBe(400);
+    expect(error.code).toBe('INVALID_LANGUAGE');
+    expect(error.field).toBe('lang');
+  });
+});
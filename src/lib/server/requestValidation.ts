@@ -0,0 +1,45 @@
+import { isValid, parse, format, differenceInCalendarDays } from 'date-fns';
+import { Language, SUPPORTED_LANGUAGES, isLanguage } from '@/types/menu';
+import { getKSTDate } from '@/lib/utils';
+import { MenuApiError } from './errors';
+
+const MAX_DATE_DISTANCE_DAYS = 366; // How far from today (KST) a menu date may be
+const DEFAULT_LANGUAGE: Language = 'en';
+
+// Parse a yyyyMMdd path/query value into a real calendar date near today
+export function parseMenuDate(value: string | null, field = 'date'): Date {
+  if (!value || !/^\d{8}$/.test(value)) {
+    throw new MenuApiError(400, 'INVALID_DATE', `${field} must be a yyyyMMdd date`, field);
+  }
+
+  // Round-trip through format to reject dates like 20240231 that date-fns would roll over
+  const date = parse(value, 'yyyyMMdd', new Date());
+  if (!isValid(date) || format(date, 'yyyyMMdd') !== value) {
+    throw new MenuApiError(400, 'INVALID_DATE', `${field} is not a calendar date`, field);
+  }
+
+  if (Math.abs(differenceInCalendarDays(date, getKSTDate())) > MAX_DATE_DISTANCE_DAYS) {
+    throw new MenuApiError(
+      400,
+      'INVALID_DATE',
+      `${field} must be within ${MAX_DATE_DISTANCE_DAYS} days of today`,
+      field
+    );
+  }
+
+  return date;
+}
+
+// Read the lang query parameter, defaulting to English when it is absent
+export function parseLanguage(value: string | null): Language {
+  if (value === null || value === '') return DEFAULT_LANGUAGE;
+  if (!isLanguage(value)) {
+    throw new MenuApiError(
+      400,
+      'INVALID_LANGUAGE',
+      `lang must be one of ${SUPPORTED_LANGUAGES.join(', ')}`,
+      'lang'
+    );
+  }
+  return value;
+}
@@ -0,0 +1,36 @@
+import { DayMenu, Language, WeekMenu } from '@/types/menu';
+import { getHolidayName } from '@/lib/holidays';
+import { formatDateKST } from '@/lib/utils';
+import { createFailedDayMenu, createHolidayDayMenu, getCenteredDates } from '@/services/menuService';
+import { getServerDayMenu } from './menu';
+
+// Build the first page of menus on the server, covering the same days the client
+// would fetch for this center date. Goes straight to the server cache instead of the API.
+export async function getServerCenteredMenu(
+  centerDate: Date,
+  language: Language,
+  daysBefore: number = 2,
+  daysAfter: number = 2
+): Promise<WeekMenu> {
+  const dates = getCenteredDates(centerDate, daysBefore, daysAfter).map(date => formatDateKST(date));
+
+  const days = await Promise.all(
+    dates.map(async (date): Promise<DayMenu> => {
+      const holiday = getHolidayName(date, language);
+      if (holiday) {
+        return createHolidayDayMenu(date, language, holiday);
+      }
+
+      // A failing day is rendered with a retry, like on the client
+      try {
+        const { data } = await getServerDayMenu(date, language);
+        return data;
+      } catch (error) {
+        console.error(`Failed to render menu for ${date}-${language}:`, error);
+        return createFailedDayMenu(date, language, error);
+      }
+    })
+  );
+
+  return { days };
+}
@@ -1,6 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
-import { format } from "date-fns"
+import { format, isValid, isWeekend, nextMonday, parse, startOfWeek } from "date-fns"
 import { toZonedTime } from "date-fns-tz"
 
 export function cn(...inputs: ClassValue[]) {
@@ -32,3 +32,31 @@ export function getTodayKST(): string {
   return formatDateKST(new Date())
 }
 
+
+/**
+ * Read a yyyyMMdd ?date= value, ignoring anything that is not a real date
+ */
+export function parseDateParam(value: string | null | undefined): string | null {
+  if (!value || !/^\d{8}$/.test(value)) return null
+  return isValid(parse(value, "yyyyMMdd", new Date())) ? value : null
+}
+
+/**
+ * Monday of the week a date falls in; weekends look ahead to the coming week
+ */
+export function getWeekStart(date: Date): Date {
+  return isWeekend(date) ? nextMonday(date) : startOfWeek(date, { weekStartsOn: 1 })
+}
+
+/**
+ * Run a callback when the browser is idle (or shortly, where idle callbacks are
+ * not supported). Returns a function that cancels it.
+ */
+export function runWhenIdle(callback: () => void): () => void {
+  if (typeof window.requestIdleCallback === "function") {
+    const handle = window.requestIdleCallback(callback, { timeout: 2000 })
+    return () => window.cancelIdleCallback(handle)
+  }
+  const timer = setTimeout(callback, 200)
+  return () => clearTimeout(timer)
+}
@@ -0,0 +1,11 @@
+// One day at a time (the date tabs), Monday to Friday side by side, or a month calendar.
+// The week view needs a wide screen; narrower screens get the tabs instead.
+export const VIEW_MODES = ["day", "week", "month"] as const
+
+export type ViewMode = typeof VIEW_MODES[number]
+
+export const VIEW_MODE_STORAGE_KEY = "gasan-menu-view"
+
+export function isViewMode(value: unknown): value is ViewMode {
+  return typeof value === "string" && (VIEW_MODES as readonly string[]).includes(value)
+}
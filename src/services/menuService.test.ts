@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { format, parse } from 'date-fns';
+import { chunkDateRange, getCenteredDates, getWorkingDaysBetween } from './menuService';
+
+const toDate = (date: string) => parse(date, 'yyyyMMdd', new Date());
+const toKeys = (dates: Date[]) => dates.map(date => format(date, 'yyyyMMdd'));
+
+describe('getWorkingDaysBetween', () => {
+  it('skips weekends', () => {
+    expect(toKeys(getWorkingDaysBetween(toDate('20261016'), toDate('20261020')))).toEqual([
+      '20261016',
+      '20261019',
+      '20261020',
+    ]);
+  });
+
+  it('skips holidays', () => {
+    // Hangul Day, Friday 9 October 2026
+    expect(toKeys(getWorkingDaysBetween(toDate('20261008'), toDate('20261012')))).toEqual(['20261008', '20261012']);
+  });
+
+  it('includes both ends', () => {
+    expect(toKeys(getWorkingDaysBetween(toDate('20261020'), toDate('20261020')))).toEqual(['20261020']);
+  });
+});
+
+describe('getCenteredDates', () => {
+  it('takes working days on either side of the center', () => {
+    expect(toKeys(getCenteredDates(toDate('20261021'), 2, 2))).toEqual([
+      '20261019',
+      '20261020',
+      '20261021',
+      '20261022',
+      '20261023',
+    ]);
+  });
+
+  it('moves a weekend center back to Friday', () => {
+    expect(toKeys(getCenteredDates(toDate('20261018'), 1, 1))).toEqual(['20261015', '20261016', '20261019']);
+  });
+
+  it('keeps holidays in the strip without counting them', () => {
+    expect(toKeys(getCenteredDates(toDate('20261008'), 0, 1))).toEqual(['20261008', '20261009', '20261012']);
+  });
+});
+
+describe('chunkDateRange', () => {
+  it('keeps dates within one range request together', () => {
+    expect(chunkDateRange(['20261001', '20261015', '20261031'])).toEqual([['20261001', '20261015', '20261031']]);
+  });
+
+  it('starts a new chunk once the span reaches 31 days', () => {
+    expect(chunkDateRange(['20261001', '20261031', '20261101', '20261130'])).toEqual([
+      ['20261001', '20261031'],
+      ['20261101', '20261130'],
+    ]);
+  });
+
+  it('returns no chunks for no dates', () => {
+    expect(chunkDateRange([])).toEqual([]);
+  });
+});
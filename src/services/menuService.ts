@@ -1,5 +1,8 @@
-import { WeekMenu, DayMenu } from '@/types/menu';
-import { format, addDays, subDays, isWeekend } from 'date-fns';
+import { WeekMenu, DayMenu, Language, parseDayMenu, MenuValidationError } from '@/types/menu';
+import { ApiDayErrorBody, ApiErrorCode, isApiErrorBody } from '@/types/api';
+import { getHoliday, getHolidayName } from '@/lib/holidays';
+import { readStoredDay, writeStoredDay, deleteStoredDay } from '@/lib/menuStore';
+import { format, parse, addDays, subDays, isWeekend, differenceInCalendarDays } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
 
 // Korea Standard Time (UTC+9)
@@ -19,14 +22,7 @@ const getApiUrl = () => {
   return process.env.NEXT_PUBLIC_API_URL || '';
 };
 
-export type Language = 'ko' | 'en' | 'zh' | 'sv';
-
-export const LANGUAGES = {
-  ko: '한국어',
-  en: 'English',
-  zh: '中文',
-  sv: 'Svenska'
-};
+export type { Language } from '@/types/menu';
 
 interface CachedData {
   data: DayMenu;
@@ -36,54 +32,65 @@ interface CachedData {
 
 const CACHE_DURATION = 6 * 60 * 60 * 1000; // 6 hours in milliseconds
 const EMPTY_CACHE_DURATION = 1 * 60 * 60 * 1000; // 1 hour for empty menus (shorter to check for updates)
+const MAX_STALE_DURATION = 7 * 24 * 60 * 60 * 1000; // Serve stale entries for up to a week while refreshing
 
-// In-memory cache for current session (avoids repeated localStorage parsing)
+// In-memory cache for current session (avoids repeated IndexedDB reads)
 const memoryCache = new Map<string, { data: DayMenu; timestamp: number; isEmpty: boolean }>();
 
+interface DayCacheResult {
+  data: DayMenu;
+  isStale: boolean; // Past its freshness window; usable, but should be refreshed
+}
+
 function getDayCacheKey(date: string, language: Language): string {
   return `menu-day-${date}-${language}`;
 }
 
-function isMenuEmpty(menu: DayMenu): boolean {
+// No meal at all, e.g. a weekend or a day the cafeteria has not published yet
+export function isMenuEmpty(menu: DayMenu): boolean {
   return menu.lunch.length === 0 && 
          menu.dinner.length === 0 && 
          !menu.salad && 
          !menu.dessert;
 }
 
-function getFromDayCache(date: string, language: Language): DayMenu | null {
+function toCacheResult({ data, timestamp, isEmpty }: CachedData, now: number): DayCacheResult | null {
+  const age = now - timestamp;
+  if (age > MAX_STALE_DURATION) return null;
+  const duration = isEmpty ? EMPTY_CACHE_DURATION : CACHE_DURATION;
+  return { data, isStale: age > duration };
+}
+
+async function getFromDayCache(date: string, language: Language): Promise<DayCacheResult | null> {
   const key = getDayCacheKey(date, language);
   const now = Date.now();
   
   // Check memory cache first (fastest)
   const memoryCached = memoryCache.get(key);
   if (memoryCached) {
-    const duration = memoryCached.isEmpty ? EMPTY_CACHE_DURATION : CACHE_DURATION;
-    if (now - memoryCached.timestamp <= duration) {
-      return memoryCached.data;
+    const result = toCacheResult(memoryCached, now);
+    if (result) {
+      return result;
     }
     memoryCache.delete(key);
   }
   
-  // Check localStorage (persistent)
-  if (typeof window === 'undefined') return null;
-  
-  const cached = localStorage.getItem(key);
-  if (!cached) return null;
-
+  // Check the offline store (persistent)
   try {
-    const { data, timestamp, isEmpty }: CachedData = JSON.parse(cached);
-    const duration = isEmpty ? EMPTY_CACHE_DURATION : CACHE_DURATION;
+    const entry = await readStoredDay(date, language);
+    if (!entry) return null;
 
-    if (now - timestamp > duration) {
-      localStorage.removeItem(key);
+    const result = toCacheResult(entry, now);
+    if (!result) {
+      await deleteStoredDay(date, language);
       return null;
     }
 
     // Store in memory cache for faster subsequent access
-    memoryCache.set(key, { data, timestamp, isEmpty });
-    return data;
-  } catch {
+    memoryCache.set(key, entry);
+    return result;
+  } catch (error) {
+    console.warn(`Failed to read stored menu for ${date}-${language}:`, error);
     return null;
   }
 }
@@ -96,103 +103,378 @@ function setToDayCache(date: string, language: Language, data: DayMenu) {
   // Always update memory cache
   memoryCache.set(key, { data, timestamp, isEmpty });
   
-  // Update localStorage (persistent)
-  if (typeof window === 'undefined') return;
-  
-  const cacheData: CachedData = {
-    data,
-    timestamp,
-    isEmpty
+  // Update the offline store in the background; the memory cache covers this session either way
+  writeStoredDay(data, timestamp, isEmpty).catch(error => {
+    console.warn(`Failed to store menu for ${date}-${language}:`, error);
+  });
+}
+
+function createEmptyDayMenu(date: string, language: Language): DayMenu {
+  return {
+    date,
+    language,
+    lunch: [],
+    dinner: [],
+    dessert: null,
+    salad: null,
   };
+}
 
-  try {
-    localStorage.setItem(key, JSON.stringify(cacheData));
-  } catch (e) {
-    // localStorage might be full, clear old entries
-    console.warn('localStorage full, clearing old menu cache');
-    clearOldMenuCache();
-    try {
-      localStorage.setItem(key, JSON.stringify(cacheData));
-    } catch {
-      // Still failed, just use memory cache
-    }
+// A holiday or closure; never fetched, the cafeteria is closed
+export function createHolidayDayMenu(date: string, language: Language, holiday: string): DayMenu {
+  return {
+    ...createEmptyDayMenu(date, language),
+    holiday,
+  };
+}
+
+// A day that could not be loaded; carried through WeekMenu so the UI can offer a retry
+export function createFailedDayMenu(date: string, language: Language, error: unknown): DayMenu {
+  return {
+    ...createEmptyDayMenu(date, language),
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export function isDayMenuFailed(menu: DayMenu): boolean {
+  return menu.error !== undefined;
+}
+
+// Seed the cache with days rendered on the server, so the client does not fetch them again
+export function primeDayCache(days: DayMenu[], language: Language) {
+  for (const day of days) {
+    if (day.holiday || isDayMenuFailed(day)) continue;
+    setToDayCache(day.date, language, day);
   }
 }
 
-// Clear old menu cache entries when localStorage is full
-function clearOldMenuCache() {
-  if (typeof window === 'undefined') return;
-  
-  const keysToRemove: string[] = [];
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key?.startsWith('menu-day-')) {
-      keysToRemove.push(key);
-    }
+// A non-OK response from the menu API, carrying the typed error body when there is one
+export class MenuRequestError extends Error {
+  constructor(public status: number, public code: ApiErrorCode | null, message: string) {
+    super(message);
+    this.name = 'MenuRequestError';
   }
-  
-  // Remove oldest half of menu cache entries
-  keysToRemove
-    .sort()
-    .slice(0, Math.ceil(keysToRemove.length / 2))
-    .forEach(key => localStorage.removeItem(key));
 }
 
-// Fetch a single day menu
-export async function getDayMenu(date: Date, language: Language): Promise<DayMenu> {
-  const formattedDate = formatKST(date, 'yyyyMMdd');
-  
-  // Check cache first (memory + localStorage)
-  const cached = getFromDayCache(formattedDate, language);
-  if (cached) {
-    return cached;
+// The upstream has no menu for the day (not published yet, or never); an empty day, not a failure
+function isNotFoundError(error: unknown): boolean {
+  return error instanceof MenuRequestError && (error.status === 404 || error.code === 'NOT_FOUND');
+}
+
+async function toRequestError(response: Response, fallbackMessage: string): Promise<MenuRequestError> {
+  const body = await response.json().catch(() => null);
+  return isApiErrorBody(body)
+    ? new MenuRequestError(response.status, body.error, body.message)
+    : new MenuRequestError(response.status, null, fallbackMessage);
+}
+
+// Normalize an API payload; throws MenuValidationError if it is unusable
+function validateDayMenu(payload: unknown, language: Language, date?: string): DayMenu {
+  const { menu, issues } = parseDayMenu(payload, { date, language });
+  if (issues.length > 0) {
+    console.warn(`Menu schema drift for ${menu.date}-${language}:`, issues);
   }
+  return menu;
+}
+
+// Requests currently running, keyed like the day cache.
+// Identical lookups (e.g. quick arrow clicks) share one promise instead of refetching.
+const inflightRequests = new Map<string, Promise<DayMenu>>();
+
+export interface MenuRequestStats {
+  cacheHits: number;
+  networkRequests: number;
+  coalesced: number; // Day lookups that joined an in-flight request instead of fetching
+}
+
+const requestStats: MenuRequestStats = { cacheHits: 0, networkRequests: 0, coalesced: 0 };
+
+export function getMenuRequestStats(): MenuRequestStats {
+  return { ...requestStats };
+}
+
+function trackInflight(key: string, request: Promise<DayMenu>): Promise<DayMenu> {
+  inflightRequests.set(key, request);
+  request.finally(() => {
+    if (inflightRequests.get(key) === request) {
+      inflightRequests.delete(key);
+    }
+  });
+  return request;
+}
 
+async function fetchDayMenu(formattedDate: string, language: Language): Promise<DayMenu> {
   try {
+    requestStats.networkRequests++;
     const apiUrl = getApiUrl();
     const response = await fetch(`${apiUrl}/api/menu/${formattedDate}?lang=${language}`);
     if (!response.ok) {
-      throw new Error(`Failed to fetch menu for ${formattedDate}`);
+      const error = await toRequestError(response, `Failed to fetch menu for ${formattedDate}`);
+      if (!isNotFoundError(error)) throw error;
+      // Cached like any empty menu, so it is asked for again after the short empty TTL
+      const emptyMenu = createEmptyDayMenu(formattedDate, language);
+      setToDayCache(formattedDate, language, emptyMenu);
+      return emptyMenu;
     }
     
-    const dayMenu = await response.json();
+    const dayMenu = validateDayMenu(await response.json(), language, formattedDate);
     // Cache the menu (including empty ones)
     setToDayCache(formattedDate, language, dayMenu);
     return dayMenu;
   } catch (error) {
     console.error(`Error fetching menu for ${formattedDate}:`, error);
-    // Return empty menu for this day and cache it (shorter duration)
-    const emptyMenu: DayMenu = {
-      date: formattedDate,
-      language,
-      lunch: [],
-      dinner: [],
-      dessert: null,
-      salad: null,
-    };
-    // Cache empty menu too (will have shorter cache duration)
-    setToDayCache(formattedDate, language, emptyMenu);
-    return emptyMenu;
+    // Not cached: a failed fetch must not look like a day without menu
+    return createFailedDayMenu(formattedDate, language, error);
+  }
+}
+
+// Listeners notified when a background refresh changes a menu we already served
+type MenuUpdateListener = (menu: DayMenu) => void;
+const updateListeners = new Set<MenuUpdateListener>();
+
+export function subscribeToMenuUpdates(listener: MenuUpdateListener): () => void {
+  updateListeners.add(listener);
+  return () => {
+    updateListeners.delete(listener);
+  };
+}
+
+function isSameDayMenu(a: DayMenu, b: DayMenu): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Refresh stale days without blocking the caller; failures keep the stale copy
+function revalidateInBackground(stale: DayMenu[], language: Language) {
+  const toRefresh = stale.filter(day => !inflightRequests.has(getDayCacheKey(day.date, language)));
+  if (toRefresh.length === 0) return;
+
+  const previous = new Map(toRefresh.map(day => [day.date, day]));
+  for (const chunk of chunkDateRange(toRefresh.map(day => day.date).sort())) {
+    const chunkRequest = fetchMenuChunk(chunk, language);
+    for (const date of chunk) {
+      const key = getDayCacheKey(date, language);
+      trackInflight(key, chunkRequest.then(menus => {
+        const fresh = menus.get(date)!;
+        if (isDayMenuFailed(fresh)) {
+          return previous.get(date)!;
+        }
+        if (!isSameDayMenu(fresh, previous.get(date)!)) {
+          updateListeners.forEach(listener => listener(fresh));
+        }
+        return fresh;
+      }));
+    }
+  }
+}
+
+// Fetch a single day menu
+export async function getDayMenu(date: Date, language: Language): Promise<DayMenu> {
+  const formattedDate = formatKST(date, 'yyyyMMdd');
+
+  // Holidays and closures have no menu to fetch
+  const holiday = getHolidayName(formattedDate, language);
+  if (holiday) {
+    return createHolidayDayMenu(formattedDate, language, holiday);
   }
+  
+  // Check cache first (memory + IndexedDB)
+  const cached = await getFromDayCache(formattedDate, language);
+  if (cached) {
+    requestStats.cacheHits++;
+    if (cached.isStale) {
+      revalidateInBackground([cached.data], language);
+    }
+    return cached.data;
+  }
+
+  // Join a request for the same day that is already running
+  const key = getDayCacheKey(formattedDate, language);
+  const pending = inflightRequests.get(key);
+  if (pending) {
+    requestStats.coalesced++;
+    return pending;
+  }
+
+  return trackInflight(key, fetchDayMenu(formattedDate, language));
 }
 
-// Get the nearest weekday (skip weekends)
+const MAX_RANGE_DAYS = 31; // Must match the limit of /api/menu/range
+
+// Split sorted yyyyMMdd dates into chunks the range endpoint accepts
+export function chunkDateRange(dates: string[]): string[][] {
+  const chunks: string[][] = [];
+  for (const date of dates) {
+    const chunk = chunks[chunks.length - 1];
+    const span = chunk
+      ? differenceInCalendarDays(parse(date, 'yyyyMMdd', new Date()), parse(chunk[0], 'yyyyMMdd', new Date()))
+      : MAX_RANGE_DAYS;
+    if (span < MAX_RANGE_DAYS) {
+      chunk.push(date);
+    } else {
+      chunks.push([date]);
+    }
+  }
+  return chunks;
+}
+
+interface MenuRangeResult {
+  days: DayMenu[];
+  errors: Record<string, Error>; // Days the server could not load or that came back broken, by date
+}
+
+// Fetch a span of days in one request
+async function fetchMenuRange(from: string, to: string, language: Language): Promise<MenuRangeResult> {
+  const apiUrl = getApiUrl();
+  const response = await fetch(`${apiUrl}/api/menu/range?from=${from}&to=${to}&lang=${language}`);
+  if (!response.ok) {
+    throw await toRequestError(response, `Failed to fetch menu for ${from}-${to}`);
+  }
+
+  const payload = await response.json();
+  if (!Array.isArray(payload?.days)) {
+    throw new MenuValidationError('days', 'expected array');
+  }
+
+  const errors: Record<string, Error> = {};
+  const dayErrors: Record<string, unknown> = payload.errors ?? {};
+  for (const [date, body] of Object.entries(dayErrors)) {
+    if (isApiErrorBody(body)) {
+      errors[date] = new MenuRequestError((body as ApiDayErrorBody).status ?? response.status, body.error, body.message);
+    }
+  }
+
+  // A broken day fails on its own; the rest of the range is still usable
+  const days: DayMenu[] = [];
+  for (const payloadDay of payload.days as unknown[]) {
+    try {
+      days.push(validateDayMenu(payloadDay, language));
+    } catch (error) {
+      const date = (payloadDay as { date?: unknown } | null)?.date;
+      console.error(`Invalid menu for ${typeof date === 'string' ? date : 'a day'} in ${from}-${to}:`, error);
+      if (typeof date === 'string' && error instanceof Error) errors[date] = error;
+    }
+  }
+
+  return { days, errors };
+}
+
+// Fetch one chunk through the range endpoint; days it cannot deliver come back as failed
+async function fetchMenuChunk(chunk: string[], language: Language): Promise<Map<string, DayMenu>> {
+  const from = chunk[0];
+  const to = chunk[chunk.length - 1];
+  const menus = new Map<string, DayMenu>();
+  let errors: Record<string, unknown> = {};
+  let failure: unknown = new Error('Missing from range response');
+
+  try {
+    requestStats.networkRequests++;
+    const range = await fetchMenuRange(from, to, language);
+    // Fill the per-day cache so single-day lookups hit it later
+    for (const day of range.days) {
+      setToDayCache(day.date, language, day);
+      menus.set(day.date, day);
+    }
+    errors = range.errors;
+  } catch (error) {
+    console.error(`Error fetching menu for ${from}-${to}:`, error);
+    failure = error;
+  }
+
+  // Anything the range did not return is treated like a single-day fetch that failed,
+  // with the day's own error when the server reported one; unknown days are empty
+  for (const date of chunk) {
+    if (menus.has(date)) continue;
+    if (isNotFoundError(errors[date])) {
+      const emptyMenu = createEmptyDayMenu(date, language);
+      setToDayCache(date, language, emptyMenu);
+      menus.set(date, emptyMenu);
+    } else {
+      menus.set(date, createFailedDayMenu(date, language, errors[date] ?? failure));
+    }
+  }
+  return menus;
+}
+
+// Fetch menus for several days, batching cache misses through the range endpoint
+export async function getMenusForDates(dates: Date[], language: Language): Promise<DayMenu[]> {
+  const formattedDates = dates.map(date => formatKST(date, 'yyyyMMdd'));
+  const requests = new Map<string, Promise<DayMenu>>();
+  const missing: string[] = [];
+  const stale: DayMenu[] = [];
+
+  // Read every day from cache (memory + IndexedDB) up front
+  const cachedDays = await Promise.all(formattedDates.map(date => getFromDayCache(date, language)));
+
+  for (const [index, date] of formattedDates.entries()) {
+    if (requests.has(date)) continue;
+
+    const holiday = getHolidayName(date, language);
+    if (holiday) {
+      requests.set(date, Promise.resolve(createHolidayDayMenu(date, language, holiday)));
+      continue;
+    }
+
+    // Serve what we can from cache
+    const cached = cachedDays[index];
+    if (cached) {
+      requestStats.cacheHits++;
+      requests.set(date, Promise.resolve(cached.data));
+      if (cached.isStale) {
+        stale.push(cached.data);
+      }
+      continue;
+    }
+
+    // Reuse requests already running for this day
+    const pending = inflightRequests.get(getDayCacheKey(date, language));
+    if (pending) {
+      requestStats.coalesced++;
+      requests.set(date, pending);
+      continue;
+    }
+
+    missing.push(date);
+  }
+
+  // One range request per chunk, registered per day so single-day lookups can join it
+  for (const chunk of chunkDateRange(missing.sort())) {
+    const chunkRequest = fetchMenuChunk(chunk, language);
+    for (const date of chunk) {
+      const key = getDayCacheKey(date, language);
+      requests.set(date, trackInflight(key, chunkRequest.then(menus => menus.get(date)!)));
+    }
+  }
+
+  // Stale days are returned as-is and refreshed afterwards
+  revalidateInBackground(stale, language);
+
+  return Promise.all(formattedDates.map(date => requests.get(date)!));
+}
+
+function isHoliday(date: Date): boolean {
+  return getHoliday(formatKST(date, 'yyyyMMdd')) !== null;
+}
+
+// Get the nearest working day (skip weekends, holidays and cafeteria closures)
 function getNearestWeekday(date: Date, direction: 'forward' | 'backward'): Date {
   let result = date;
-  while (isWeekend(result)) {
+  while (isWeekend(result) || isHoliday(result)) {
     result = direction === 'forward' ? addDays(result, 1) : subDays(result, 1);
   }
   return result;
 }
 
-// Get N weekdays before a date
+// Get N working days before a date.
+// Weekday holidays in between are included so they show up as labelled tabs, but don't count toward N.
 function getWeekdaysBefore(date: Date, count: number): Date[] {
   const dates: Date[] = [];
+  let workingDays = 0;
   let current = subDays(date, 1);
   
-  while (dates.length < count) {
+  while (workingDays < count) {
     if (!isWeekend(current)) {
       dates.unshift(current);
+      if (!isHoliday(current)) workingDays++;
     }
     current = subDays(current, 1);
   }
@@ -200,14 +482,16 @@ function getWeekdaysBefore(date: Date, count: number): Date[] {
   return dates;
 }
 
-// Get N weekdays after a date
+// Get N working days after a date (weekday holidays included, as above)
 function getWeekdaysAfter(date: Date, count: number): Date[] {
   const dates: Date[] = [];
+  let workingDays = 0;
   let current = addDays(date, 1);
   
-  while (dates.length < count) {
+  while (workingDays < count) {
     if (!isWeekend(current)) {
       dates.push(current);
+      if (!isHoliday(current)) workingDays++;
     }
     current = addDays(current, 1);
   }
@@ -215,27 +499,45 @@ function getWeekdaysAfter(date: Date, count: number): Date[] {
   return dates;
 }
 
-// Fetch menu centered around a specific date with ±N days
-export async function getCenteredMenu(
+// Working days (weekdays that are not holidays or closures) from start to end, inclusive
+export function getWorkingDaysBetween(start: Date, end: Date): Date[] {
+  const dates: Date[] = [];
+  for (let current = start; differenceInCalendarDays(end, current) >= 0; current = addDays(current, 1)) {
+    if (!isWeekend(current) && !isHoliday(current)) {
+      dates.push(current);
+    }
+  }
+  return dates;
+}
+
+// Working days around a date with ±N days, centered on the nearest working day.
+// Shared with the server so the first render covers the same days the client would fetch.
+export function getCenteredDates(
   centerDate: Date = new Date(),
   daysBefore: number = 2,
-  daysAfter: number = 2,
-  language: Language = 'en'
-): Promise<WeekMenu> {
-  // Adjust center date to nearest weekday if it's a weekend
+  daysAfter: number = 2
+): Date[] {
+  // Adjust center date to nearest working day if it's a weekend or holiday
   const adjustedCenter = getNearestWeekday(centerDate, 'backward');
   
   // Get dates before and after
   const datesBefore = getWeekdaysBefore(adjustedCenter, daysBefore);
   const datesAfter = getWeekdaysAfter(adjustedCenter, daysAfter);
   
-  // Combine all dates
-  const allDates = [...datesBefore, adjustedCenter, ...datesAfter];
+  return [...datesBefore, adjustedCenter, ...datesAfter];
+}
+
+// Fetch menu centered around a specific date with ±N days
+export async function getCenteredMenu(
+  centerDate: Date = new Date(),
+  daysBefore: number = 2,
+  daysAfter: number = 2,
+  language: Language = 'en'
+): Promise<WeekMenu> {
+  const allDates = getCenteredDates(centerDate, daysBefore, daysAfter);
   
-  // Fetch all menus in parallel
-  const dayMenus = await Promise.all(
-    allDates.map(date => getDayMenu(date, language))
-  );
+  // Fetch all menus in a single batch
+  const dayMenus = await getMenusForDates(allDates, language);
   
   return { days: dayMenus };
 }
@@ -251,11 +553,7 @@ export async function getAdditionalDays(
     ? getWeekdaysBefore(referenceDate, count)
     : getWeekdaysAfter(referenceDate, count);
   
-  const dayMenus = await Promise.all(
-    dates.map(date => getDayMenu(date, language))
-  );
-  
-  return dayMenus;
+  return getMenusForDates(dates, language);
 }
 
 // Legacy function for backward compatibility
@@ -0,0 +1,31 @@
+// Error bodies returned by the /api/menu routes. The client reads the same shape.
+
+export type ApiErrorCode =
+  | 'INVALID_DATE'
+  | 'INVALID_LANGUAGE'
+  | 'INVALID_RANGE'
+  | 'NOT_FOUND'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_ERROR'
+  | 'INVALID_UPSTREAM_PAYLOAD'
+  | 'INTERNAL_ERROR';
+
+export interface ApiErrorBody {
+  error: ApiErrorCode;
+  message: string;
+  field?: string; // Request parameter or payload field at fault
+}
+
+// A day that failed inside an otherwise successful /api/menu/range response
+export interface ApiDayErrorBody extends ApiErrorBody {
+  status: number; // Status the single-day route would have answered with
+}
+
+export function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ApiErrorBody).error === 'string' &&
+    typeof (value as ApiErrorBody).message === 'string'
+  );
+}
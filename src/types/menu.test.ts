@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { MenuValidationError, parseDayMenu } from './menu';
+
+const item = {
+  id: 1,
+  name: '김치찌개',
+  meal_type: 'lunch',
+  corner_name: 'A',
+  description: '',
+  sub_menus: ['밥', '김치'],
+};
+
+const day = {
+  date: '20261020',
+  language: 'ko',
+  lunch: [item],
+  dinner: [],
+  dessert: null,
+  salad: null,
+};
+
+function validationField(run: () => unknown): string {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof MenuValidationError) return error.field;
+    throw error;
+  }
+  throw new Error('expected a MenuValidationError');
+}
+
+describe('parseDayMenu', () => {
+  it('accepts a well-formed menu without issues', () => {
+    expect(parseDayMenu(day)).toEqual({ menu: day, issues: [] });
+  });
+
+  it('fills in the expected date and language when they are missing', () => {
+    const { menu, issues } = parseDayMenu({ ...day, date: undefined, language: null }, { date: '20261020', language: 'ko' });
+    expect(menu.date).toBe('20261020');
+    expect(menu.language).toBe('ko');
+    expect(issues).toEqual(['date missing', 'language missing']);
+  });
+
+  it('coerces recoverable drift and reports it', () => {
+    const { menu, issues } = parseDayMenu({
+      ...day,
+      date: 20261020,
+      lunch: [{ ...item, id: '7', corner_name: 3, sub_menus: '밥', meal_type: undefined }],
+      dinner: null,
+    });
+    expect(menu.date).toBe('20261020');
+    expect(menu.lunch[0]).toMatchObject({ id: 7, corner_name: '3', sub_menus: ['밥'], meal_type: 'lunch' });
+    expect(menu.dinner).toEqual([]);
+    expect(issues).toEqual([
+      'date was a number',
+      'lunch[0].id was a string',
+      'lunch[0].meal_type missing',
+      'lunch[0].corner_name was a number',
+      'lunch[0].sub_menus was a string',
+      'dinner missing',
+    ]);
+  });
+
+  it('keeps tag lists unknown when they are missing', () => {
+    expect(parseDayMenu(day).menu.lunch[0]).not.toHaveProperty('allergens');
+  });
+
+  it('reads allergens as names or label numbers and drops unknown ones', () => {
+    const parse = (allergens: unknown) =>
+      parseDayMenu({ ...day, lunch: [{ ...item, allergens }] }).menu.lunch[0].allergens;
+    expect(parse(['eggs', 'Pine-Nut'])).toEqual(['eggs', 'pine_nut']);
+    expect(parse([1, 10])).toEqual(['eggs', 'pork']);
+    expect(parse('5.6.16')).toEqual(['soybean', 'wheat', 'beef']);
+    expect(parse(['eggs', 'gluten', 20])).toEqual(['eggs']);
+  });
+
+  it('rejects shapes it cannot recover', () => {
+    expect(validationField(() => parseDayMenu('menu'))).toBe('menu');
+    expect(validationField(() => parseDayMenu({ ...day, date: '2026-10-20' }))).toBe('date');
+    expect(validationField(() => parseDayMenu({ ...day, language: 1 }))).toBe('language');
+    expect(validationField(() => parseDayMenu({ ...day, lunch: {} }))).toBe('lunch');
+    expect(validationField(() => parseDayMenu({ ...day, lunch: [{ ...item, name: null }] }))).toBe('lunch[0].name');
+    expect(validationField(() => parseDayMenu({ ...day, dessert: { ...item, id: 'x' } }))).toBe('dessert.id');
+  });
+
+  it('rejects a menu for another day than the one requested', () => {
+    expect(validationField(() => parseDayMenu(day, { date: '20261021' }))).toBe('date');
+  });
+});
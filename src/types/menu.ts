@@ -1,3 +1,23 @@
+export const SUPPORTED_LANGUAGES = ['ko', 'en', 'zh', 'sv', 'ja', 'vi'] as const;
+
+export type Language = typeof SUPPORTED_LANGUAGES[number];
+
+export function isLanguage(value: unknown): value is Language {
+  return SUPPORTED_LANGUAGES.includes(value as Language);
+}
+
+// The 19 allergens Korean food labelling requires, in their official 1–19 order
+export const ALLERGENS = [
+  'eggs', 'milk', 'buckwheat', 'peanut', 'soybean', 'wheat', 'mackerel', 'crab', 'shrimp', 'pork',
+  'peach', 'tomato', 'sulfites', 'walnut', 'chicken', 'beef', 'squid', 'shellfish', 'pine_nut',
+] as const;
+
+export type Allergen = typeof ALLERGENS[number];
+
+export const DIETARY_FLAGS = ['vegetarian', 'pork', 'beef', 'spicy', 'halal_friendly'] as const;
+
+export type DietaryFlag = typeof DIETARY_FLAGS[number];
+
 export interface MenuItem {
   id: number;
   name: string;
@@ -5,6 +25,8 @@ export interface MenuItem {
   corner_name: string;
   description: string;
   sub_menus: string[];
+  allergens?: Allergen[]; // Omitted when the upstream does not say; the UI then infers them
+  dietary?: DietaryFlag[];
 }
 
 export interface DayMenu {
@@ -14,8 +36,218 @@ export interface DayMenu {
   dinner: MenuItem[];
   dessert: MenuItem | null;
   salad: MenuItem | null;
+  error?: string; // Set client-side when the day could not be loaded (never cached)
+  holiday?: string; // Set client-side with the localized name when the cafeteria is closed
 }
 
 export interface WeekMenu {
   days: DayMenu[];
 }
+
+// Runtime validation for menu payloads, shared by the API routes and the client service.
+// Recoverable shapes (null lists, numeric strings, missing optional text) are coerced
+// and reported as issues; anything else is rejected with the offending field.
+
+export class MenuValidationError extends Error {
+  constructor(public field: string, message: string) {
+    super(`${field}: ${message}`);
+    this.name = 'MenuValidationError';
+  }
+}
+
+export interface MenuValidationResult {
+  menu: DayMenu;
+  issues: string[]; // Fields that had to be coerced (schema drift)
+}
+
+type Issues = string[];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseText(value: unknown, field: string, issues: Issues): string {
+  if (typeof value === 'string') return value;
+  if (value === null || value === undefined) {
+    issues.push(`${field} missing`);
+    return '';
+  }
+  if (typeof value === 'number') {
+    issues.push(`${field} was a number`);
+    return String(value);
+  }
+  throw new MenuValidationError(field, `expected string, got ${typeof value}`);
+}
+
+function parseId(value: unknown, field: string, issues: Issues): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    issues.push(`${field} was a string`);
+    return Number(value);
+  }
+  throw new MenuValidationError(field, 'expected numeric id');
+}
+
+function parseSubMenus(value: unknown, field: string, issues: Issues): string[] {
+  if (value === null || value === undefined) {
+    issues.push(`${field} missing`);
+    return [];
+  }
+  if (typeof value === 'string') {
+    issues.push(`${field} was a string`);
+    return value ? [value] : [];
+  }
+  if (!Array.isArray(value)) {
+    throw new MenuValidationError(field, `expected array, got ${typeof value}`);
+  }
+  return value.flatMap((subMenu, index) => {
+    if (typeof subMenu === 'string') return [subMenu];
+    if (typeof subMenu === 'number') return [String(subMenu)];
+    issues.push(`${field}[${index}] dropped`);
+    return [];
+  });
+}
+
+// Optional tag lists. A missing list stays undefined (unknown, not "none"); unknown tags are dropped.
+// Allergens may also come as their label numbers, as a list or a dotted string like "1.5.6".
+function parseTagList<T extends string>(
+  value: unknown,
+  field: string,
+  known: readonly T[],
+  issues: Issues,
+  numbered = false
+): T[] | undefined {
+  if (value === null || value === undefined) return undefined;
+
+  let entries: unknown[];
+  if (Array.isArray(value)) {
+    entries = value;
+  } else if (typeof value === 'string') {
+    issues.push(`${field} was a string`);
+    entries = value.split(/[\s.,]+/).filter(Boolean);
+  } else {
+    issues.push(`${field} dropped`);
+    return undefined;
+  }
+
+  const tags = new Set<T>();
+  entries.forEach((entry, index) => {
+    const text = typeof entry === 'number' ? String(entry) : entry;
+    if (typeof text !== 'string') {
+      issues.push(`${field}[${index}] dropped`);
+      return;
+    }
+    const tag = numbered && /^\d+$/.test(text)
+      ? known[Number(text) - 1]
+      : text.trim().toLowerCase().replace(/-/g, '_');
+    if (tag && known.includes(tag as T)) {
+      tags.add(tag as T);
+    } else {
+      issues.push(`${field}[${index}] dropped`);
+    }
+  });
+  return [...tags];
+}
+
+// Older payloads omit meal_type; the section the item came from is a safe default
+function parseMealType(value: unknown, field: string, fallback: string, issues: Issues): string {
+  if (value === null || value === undefined) {
+    issues.push(`${field} missing`);
+    return fallback;
+  }
+  return parseText(value, field, issues);
+}
+
+function parseMenuItem(value: unknown, field: string, mealType: string, issues: Issues): MenuItem {
+  if (!isRecord(value)) {
+    throw new MenuValidationError(field, 'expected object');
+  }
+  if (typeof value.name !== 'string') {
+    throw new MenuValidationError(`${field}.name`, 'expected string');
+  }
+
+  const allergens = parseTagList(value.allergens, `${field}.allergens`, ALLERGENS, issues, true);
+  const dietary = parseTagList(value.dietary, `${field}.dietary`, DIETARY_FLAGS, issues);
+
+  return {
+    id: parseId(value.id, `${field}.id`, issues),
+    name: value.name,
+    meal_type: parseMealType(value.meal_type, `${field}.meal_type`, mealType, issues),
+    corner_name: parseText(value.corner_name, `${field}.corner_name`, issues),
+    description: parseText(value.description, `${field}.description`, issues),
+    sub_menus: parseSubMenus(value.sub_menus, `${field}.sub_menus`, issues),
+    ...(allergens && { allergens }),
+    ...(dietary && { dietary }),
+  };
+}
+
+function parseMealList(value: unknown, field: string, issues: Issues): MenuItem[] {
+  if (value === null || value === undefined) {
+    issues.push(`${field} missing`);
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new MenuValidationError(field, `expected array, got ${typeof value}`);
+  }
+  return value.map((item, index) => parseMenuItem(item, `${field}[${index}]`, field, issues));
+}
+
+function parseSingleItem(value: unknown, field: string, issues: Issues): MenuItem | null {
+  if (value === null) return null;
+  if (value === undefined) {
+    issues.push(`${field} missing`);
+    return null;
+  }
+  return parseMenuItem(value, field, field, issues);
+}
+
+/**
+ * Validate and normalize a raw DayMenu payload.
+ * `expected` fills in date/language when the payload omits them.
+ */
+export function parseDayMenu(
+  input: unknown,
+  expected: { date?: string; language?: string } = {}
+): MenuValidationResult {
+  if (!isRecord(input)) {
+    throw new MenuValidationError('menu', 'expected object');
+  }
+
+  const issues: Issues = [];
+
+  let date = input.date;
+  if (typeof date === 'number') {
+    issues.push('date was a number');
+    date = String(date);
+  } else if ((date === undefined || date === null) && expected.date) {
+    issues.push('date missing');
+    date = expected.date;
+  }
+  if (typeof date !== 'string' || !/^\d{8}$/.test(date)) {
+    throw new MenuValidationError('date', 'expected yyyyMMdd string');
+  }
+  if (expected.date && date !== expected.date) {
+    throw new MenuValidationError('date', `expected ${expected.date}, got ${date}`);
+  }
+
+  let language = input.language;
+  if ((language === undefined || language === null) && expected.language) {
+    issues.push('language missing');
+    language = expected.language;
+  }
+  if (typeof language !== 'string') {
+    throw new MenuValidationError('language', 'expected string');
+  }
+
+  return {
+    menu: {
+      date,
+      language,
+      lunch: parseMealList(input.lunch, 'lunch', issues),
+      dinner: parseMealList(input.dinner, 'dinner', issues),
+      dessert: parseSingleItem(input.dessert, 'dessert', issues),
+      salad: parseSingleItem(input.salad, 'salad', issues),
+    },
+    issues,
+  };
+}